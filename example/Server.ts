@@ -9,8 +9,7 @@ import { WebSocketTransport } from "@colyseus/ws-transport";
 import { Client, matchMaker, Room, Server } from "colyseus";
 import express from "express";
 import { createServer } from "http";
-import path from "path";
-import { getAPI } from "../build/api.js";
+import { monitor as newMonitor } from "../build/index.js";
 
 // Create express app
 const app = express();
@@ -94,41 +93,16 @@ gameServer.define("game", GameRoom);
 // Legacy monitor
 app.use("/monitor-legacy", monitor());
 
-// New monitor - API endpoints
-app.use("/monitor/api", getAPI({}));
-
-// Serve static files for the new monitor
+// New monitor (API and frontend, configured from the options below)
 app.use(
-  "/monitor/static",
-  express.static(path.resolve(__dirname, "../build/static")),
+  "/monitor",
+  newMonitor({
+    ui: {
+      roomList: { defaultSort: "clients", defaultOrder: "desc" },
+    },
+  }),
 );
 
-// New monitor - Frontend
-app.get("/monitor", (req, res) => {
-  res.send(`
-    <!doctype html>
-    <html lang="en">
-      <head>
-        <meta charset="UTF-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-        <meta http-equiv="X-UA-Compatible" content="ie=edge" />
-        <link href="https://fonts.googleapis.com/icon?family=Material+Icons" rel="stylesheet" />
-        <title>Colyseus Monitor</title>
-        <script>
-          window.__COLYSEUS_MONITOR_CONFIG = {
-            apiPrefix: "/monitor/api"
-          };
-        </script>
-        <link rel="stylesheet" href="/monitor/static/css/main.css" />
-      </head>
-      <body>
-        <div id="app"></div>
-        <script src="/monitor/static/js/main.js"></script>
-      </body>
-    </html>
-  `);
-});
-
 // Playground
 app.use("/playground", playground());
 
@@ -0,0 +1,311 @@
+//
+// Threshold alerts, evaluated on each metrics sample
+//
+import { matchMaker } from "@colyseus/core";
+
+import type { MetricsHistory, MetricsSample } from "./history.js";
+import type { MonitorOptions } from "./index.js";
+
+// Maximum time to wait for a webhook to respond
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+export type AlertMetric =
+  // Server CPU usage (%)
+  | "cpu"
+  // Server memory usage (%)
+  | "memory"
+  // Connected clients (total)
+  | "connections"
+  // Connected clients per room type
+  | "ccu"
+  // Rooms (total, or of `roomType`)
+  | "rooms"
+  // Full state size (bytes) of each room
+  | "stateSize";
+
+export type AlertOperator = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+export interface AlertRule {
+  name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  // Only evaluate rooms of this type ("ccu", "rooms" and "stateSize" metrics)
+  roomType?: string;
+  // How long (ms) the condition must hold before firing. Default: 0
+  for?: number;
+  severity?: "info" | "warning" | "critical";
+  description?: string;
+}
+
+export interface AlertWebhook {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface Alert {
+  rule: string;
+  metric: AlertMetric;
+  severity: "info" | "warning" | "critical";
+  // What the alert is about (e.g. `{ roomType: "battle" }`)
+  labels: Record<string, string>;
+  value: number;
+  threshold: number;
+  operator: AlertOperator;
+  message: string;
+  state: "pending" | "firing";
+  // When the condition started to hold
+  since: number;
+  firedAt?: number;
+}
+
+function compare(value: number, operator: AlertOperator, threshold: number) {
+  switch (operator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case "==":
+      return value === threshold;
+    case "!=":
+      return value !== threshold;
+  }
+}
+
+function formatLabels(labels: Record<string, string>) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}=${value}`);
+  return pairs.length > 0 ? ` (${pairs.join(", ")})` : "";
+}
+
+/**
+ * Evaluates alert rules, tracks their firing/resolved state, and notifies
+ * webhooks of changes.
+ */
+export class AlertManager {
+  protected alerts = new Map<string, Alert>();
+
+  constructor(
+    protected rules: AlertRule[],
+    protected webhooks: Array<string | AlertWebhook> = [],
+  ) {}
+
+  // Active (pending and firing) alerts
+  getAlerts() {
+    return Array.from(this.alerts.values());
+  }
+
+  async evaluate(sample: MetricsSample) {
+    const stateSizes = this.rules.some((rule) => rule.metric === "stateSize")
+      ? await this.getStateSizes()
+      : [];
+
+    const now = sample.timestamp;
+    const active = new Set<string>();
+
+    this.rules.forEach((rule) => {
+      this.getValues(rule, sample, stateSizes).forEach(({ labels, value }) => {
+        if (!compare(value, rule.operator, rule.threshold)) {
+          return;
+        }
+
+        const key = `${rule.name}${formatLabels(labels)}`;
+        active.add(key);
+
+        const alert: Alert = this.alerts.get(key) || {
+          rule: rule.name,
+          metric: rule.metric,
+          severity: rule.severity || "warning",
+          labels,
+          value,
+          threshold: rule.threshold,
+          operator: rule.operator,
+          message: "",
+          state: "pending",
+          since: now,
+        };
+
+        alert.value = value;
+        alert.message =
+          `${rule.name}: ${rule.metric}${formatLabels(labels)} is ` +
+          `${Math.round(value * 100) / 100} (${rule.operator} ${rule.threshold})`;
+
+        this.alerts.set(key, alert);
+
+        if (alert.state === "pending" && now - alert.since >= (rule.for || 0)) {
+          alert.state = "firing";
+          alert.firedAt = now;
+          this.notify("firing", alert);
+        }
+      });
+    });
+
+    // Conditions no longer holding
+    this.alerts.forEach((alert, key) => {
+      if (active.has(key)) return;
+
+      this.alerts.delete(key);
+
+      if (alert.state === "firing") {
+        this.notify("resolved", alert);
+      }
+    });
+  }
+
+  // Values of the rule's metric (one per room type or room, if applicable)
+  protected getValues(
+    rule: AlertRule,
+    sample: MetricsSample,
+    stateSizes: Array<{ roomId: string; name: string; stateSize: number }>,
+  ): Array<{ labels: Record<string, string>; value: number }> {
+    const byRoomType = (values: Record<string, number>) =>
+      Object.entries(values)
+        .filter(([roomType]) => !rule.roomType || roomType === rule.roomType)
+        .map(([roomType, value]) => ({ labels: { roomType }, value }));
+
+    switch (rule.metric) {
+      case "cpu":
+        return [{ labels: {}, value: sample.cpu }];
+
+      case "memory":
+        return [
+          {
+            labels: {},
+            value: (sample.memory / sample.totalMemory) * 100,
+          },
+        ];
+
+      case "connections":
+        return [{ labels: {}, value: sample.connections }];
+
+      case "ccu":
+        return byRoomType(sample.ccu);
+
+      case "rooms":
+        // room types without rooms are not listed in the sample
+        return rule.roomType
+          ? [
+              {
+                labels: { roomType: rule.roomType },
+                value: sample.roomCounts[rule.roomType] || 0,
+              },
+            ]
+          : [{ labels: {}, value: sample.rooms }];
+
+      case "stateSize":
+        return stateSizes
+          .filter((room) => !rule.roomType || room.name === rule.roomType)
+          .map((room) => ({
+            labels: { roomId: room.roomId, roomType: room.name },
+            value: room.stateSize,
+          }));
+
+      default:
+        return [];
+    }
+  }
+
+  protected async getStateSizes() {
+    const rooms: any[] = await matchMaker.query({});
+
+    const sizes = await Promise.all(
+      rooms.map(async (room) => {
+        try {
+          const data = await matchMaker.remoteRoomCall(
+            room.roomId,
+            "getRoomListData",
+          );
+          return {
+            roomId: room.roomId,
+            name: room.name,
+            stateSize: data.stateSize,
+          };
+        } catch (e) {
+          // room may have been disposed in the meantime
+          return undefined;
+        }
+      }),
+    );
+
+    return sizes.filter((size) => size !== undefined);
+  }
+
+  protected notify(status: "firing" | "resolved", alert: Alert) {
+    const body = JSON.stringify({
+      status,
+      alert,
+      timestamp: Date.now(),
+    });
+
+    this.webhooks.forEach(async (webhook) => {
+      const { url, headers } =
+        typeof webhook === "string" ? { url: webhook, headers: {} } : webhook;
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+        });
+
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+      } catch (e) {
+        console.error(
+          `@colyseus/monitor: alert webhook ${url} failed: ${e.message}`,
+        );
+      }
+    });
+  }
+}
+
+// Alert manager shared by every monitor router (like the metrics history
+// sampler it's attached to)
+let sharedAlertManager: AlertManager | undefined;
+
+// Evaluate the configured alert rules on each metrics sample
+export function getAlertManager(
+  opts: Partial<MonitorOptions>,
+  metricsHistory: MetricsHistory | undefined,
+) {
+  const rules = opts.alerts?.rules;
+
+  if (!rules || rules.length === 0) {
+    return undefined;
+  }
+
+  if (!metricsHistory) {
+    console.warn(
+      "@colyseus/monitor: alerts require metrics history (`metrics.history.enabled`)",
+    );
+    return undefined;
+  }
+
+  if (sharedAlertManager) {
+    return sharedAlertManager;
+  }
+
+  const alertManager = new AlertManager(rules, opts.alerts.webhooks);
+
+  metricsHistory.onSample((sample) =>
+    alertManager
+      .evaluate(sample)
+      .catch((e) =>
+        console.error("@colyseus/monitor: alert evaluation failed", e),
+      ),
+  );
+
+  sharedAlertManager = alertManager;
+
+  return alertManager;
+}
+
+// Discard the shared alert manager (see `stopMetricsHistory()`)
+export function disposeAlertManager() {
+  sharedAlertManager = undefined;
+}
@@ -1,9 +1,53 @@
-import { matchMaker } from "@colyseus/core";
+import { ErrorCode, matchMaker, ServerError } from "@colyseus/core";
 
 import express from "express";
 import osUtils from "node-os-utils";
 
-import type { MonitorOptions } from "./index.js";
+import { getAlertManager } from "./alerts.js";
+import { AuditQuery, getAuditSink, recordAudit } from "./audit.js";
+import {
+  getAuthMiddleware,
+  getRequestAccess,
+  getRequestPrincipal,
+  resolveAccess,
+} from "./auth.js";
+import { redactClients, redactRecording } from "./clients.js";
+import {
+  applyRoomFilter,
+  getCustomFilter,
+  getRoomFilter,
+  getRoomFilterViews,
+} from "./filters.js";
+import type {
+  AccessControlOptions,
+  CustomAction,
+  MonitorOptions,
+} from "./index.js";
+import { getMetricsHistory } from "./history.js";
+import {
+  hasPermission,
+  ResolvedRoomCall,
+  resolveRoomCall,
+  RoomCallError,
+} from "./methods.js";
+import { getProcesses } from "./processes.js";
+import { getPrometheusMetrics, PROMETHEUS_CONTENT_TYPE } from "./prometheus.js";
+import { parseRoomQuery } from "./query.js";
+import {
+  replaySession,
+  SessionRecording,
+  validateRecording,
+} from "./recorder.js";
+import {
+  getRealtimeSettings,
+  isRealtimeTransport,
+  RealtimeDataProvider,
+  RealtimeServer,
+} from "./realtime.js";
+import { getStreamHandler } from "./stream.js";
+
+// Maximum size of uploaded session recordings and state exports
+const UPLOAD_BODY_LIMIT = "20mb";
 
 const UNAVAILABLE_ROOM_ERROR =
   "@colyseus/monitor: room $roomId is not available anymore.";
@@ -19,6 +63,49 @@ function handleError(
   res.json({ error: true, message });
 }
 
+// Error of a failed call on a room that existed when the call was made: 404
+// if the room has been disposed since, 504 if it didn't answer in time (IPC
+// timeout), 400 if it rejected the call
+async function getRoomCallError(roomId: string, e: any) {
+  const [room] = await matchMaker.query({ roomId });
+
+  if (!room) {
+    return new RoomCallError(
+      UNAVAILABLE_ROOM_ERROR.replace("$roomId", roomId),
+      404,
+    );
+  }
+
+  const timedOut =
+    e.message === "ipc_timeout" ||
+    (e instanceof ServerError &&
+      e.code === ErrorCode.MATCHMAKE_UNHANDLED &&
+      e.message.includes("timed out"));
+
+  return new RoomCallError(e.message, timedOut ? 504 : 400);
+}
+
+// Custom action, as listed to the frontend (handlers stay on the server)
+function toActionInfo(action: CustomAction) {
+  return {
+    id: action.id,
+    name: action.name,
+    description: action.description,
+    icon: action.icon,
+    confirmRequired: action.confirmRequired,
+    args: action.args,
+  };
+}
+
+// Check the method and arguments of a room call (error message, if invalid)
+function checkCallParams(method: any, args: any) {
+  if (typeof method !== "string" || !method) {
+    return "Missing method";
+  } else if (!Array.isArray(args)) {
+    return "Invalid args: expected an array";
+  }
+}
+
 // Apply room filters based on options
 function applyRoomFilters(
   rooms: any[],
@@ -42,6 +129,16 @@ function applyRoomFilters(
     );
   }
 
+  // Filter by custom predicate
+  const customFilter = getCustomFilter(filterOptions.customFilter);
+  if (customFilter) {
+    filteredRooms = applyRoomFilter(
+      filteredRooms,
+      customFilter.name,
+      customFilter.predicate,
+    );
+  }
+
   return filteredRooms;
 }
 
@@ -68,133 +165,269 @@ function applySorting(rooms: any[], sort?: string, order?: "asc" | "desc") {
   });
 }
 
+// Columns reported by the rooms themselves (see `_getRoomRates()`)
+const ROOM_RATE_COLUMNS = [
+  "messageRate",
+  "broadcastRate",
+  "sendRate",
+  "patchRate",
+  "patchBytesRate",
+];
+
+// Add message and patch rates to room listings
+async function withRoomRates(rooms: any[]) {
+  return Promise.all(
+    rooms.map(async (room) => {
+      try {
+        const rates = await matchMaker.remoteRoomCall(
+          room.roomId,
+          "_getRoomRates",
+        );
+        return { ...room, ...rates };
+      } catch (e) {
+        // room may have been disposed in the meantime
+        return room;
+      }
+    }),
+  );
+}
+
+// Room list query parameters (shared by the HTTP API and realtime transports)
+export interface RoomListParams {
+  filter?: string;
+  // Name of a registered room filter ("quick view")
+  view?: string;
+  sort?: string;
+  order?: "asc" | "desc";
+  page?: number;
+  limit?: number;
+}
+
+// CPU (sampled over a second) and memory usage of the server
+async function getSystemUsage() {
+  const cpu = await osUtils.cpu.usage();
+  const memory = await osUtils.mem.used();
+
+  return { cpu, memory };
+}
+
+export type SystemUsage = Awaited<ReturnType<typeof getSystemUsage>>;
+
+// Build the room list payload with filtering, sorting and pagination
+// (`usage` is sampled unless given)
+export async function getRoomList(
+  opts: Partial<MonitorOptions>,
+  params: RoomListParams = {},
+  access: AccessControlOptions = resolveAccess(opts),
+  usage?: SystemUsage,
+) {
+  // Parse the query filter (throws QueryError if invalid)
+  const matchFilter = params.filter && parseRoomQuery(params.filter);
+  const sort = params.sort || opts.ui?.roomList?.defaultSort;
+  const order = params.order || opts.ui?.roomList?.defaultOrder || "asc";
+  const page = params.page || 1;
+  const limit = params.limit || opts.ui?.roomList?.pageSize || 100;
+
+  // Get all rooms
+  const rooms: any[] = await matchMaker.query({});
+
+  // Apply configured filters
+  let filteredRooms = applyRoomFilters(rooms, opts.filter);
+
+  // Apply quick view if provided
+  const view = params.view && getRoomFilter(params.view);
+  if (view) {
+    filteredRooms = applyRoomFilter(filteredRooms, view.name, view.predicate);
+  }
+
+  // Apply additional query filter if provided
+  if (matchFilter) {
+    filteredRooms = filteredRooms.filter(matchFilter);
+  }
+
+  // Determine which columns to show
+  const columns = opts.columns || [
+    "roomId",
+    "name",
+    "clients",
+    "maxClients",
+    "locked",
+    "elapsedTime",
+  ];
+
+  // Rates are needed for every room when sorting by them
+  const sortByRate = ROOM_RATE_COLUMNS.includes(sort);
+  if (sortByRate) {
+    filteredRooms = await withRoomRates(filteredRooms);
+  }
+
+  // Apply sorting
+  const sortedRooms = applySorting(filteredRooms, sort, order);
+
+  // Apply pagination
+  const startIndex = (page - 1) * limit;
+  const endIndex = page * limit;
+  let paginatedRooms = sortedRooms.slice(startIndex, endIndex);
+
+  const showRates = columns.some(
+    (column) =>
+      typeof column === "string" && ROOM_RATE_COLUMNS.includes(column),
+  );
+  if (showRates && !sortByRate) {
+    paginatedRooms = await withRoomRates(paginatedRooms);
+  }
+
+  // Add "processId" column if present in any room
+  if (!opts.columns && rooms[0] && rooms[0].publicAddress !== undefined) {
+    columns.push("publicAddress");
+  }
+
+  // Calculate total connections
+  let connections: number = 0;
+
+  // Format room data
+  const formattedRooms = paginatedRooms.map((room) => {
+    const data = JSON.parse(JSON.stringify(room));
+
+    // Count connections
+    connections += room.clients;
+
+    // Additional data
+    data.locked = room.locked || false;
+    data.private = room.private;
+    data.maxClients = `${room.maxClients}`;
+    data.elapsedTime = Date.now() - new Date(room.createdAt).getTime();
+
+    return data;
+  });
+
+  // Get system information
+  const { cpu, memory } = usage || (await getSystemUsage());
+
+  // Return formatted response with pagination info
+  return {
+    columns,
+    rooms: formattedRooms,
+    pagination: {
+      total: filteredRooms.length,
+      page,
+      limit,
+      pages: Math.ceil(filteredRooms.length / limit),
+    },
+    connections,
+    cpu,
+    memory,
+    // Include available actions if configured
+    actions: {
+      room: opts.actions?.room?.map(toActionInfo),
+      client: opts.actions?.client?.map(toActionInfo),
+    },
+    // Include available quick views
+    views: getRoomFilterViews(),
+    // Include access control permissions
+    access,
+    // Include realtime transport settings
+    realtime: getRealtimeSettings(opts),
+  };
+}
+
+// Get detailed room data, including the configured actions
+export async function getRoomInspectData(
+  opts: Partial<MonitorOptions>,
+  roomId: string,
+  access: AccessControlOptions = resolveAccess(opts),
+) {
+  const inspectData = await matchMaker.remoteRoomCall(roomId, "getInspectData");
+
+  inspectData.clients = redactClients(opts, inspectData.clients);
+
+  // Add available room actions
+  if (opts.actions?.room) {
+    inspectData.actions = opts.actions.room.map(toActionInfo);
+  }
+
+  // Add available client actions
+  if (opts.actions?.client) {
+    inspectData.clientActions = opts.actions.client.map(toActionInfo);
+  }
+
+  // Include access control permissions
+  inspectData.access = access;
+
+  return inspectData;
+}
+
+// Get a point-in-time sample of server metrics
+export async function getServerMetrics() {
+  const { cpu, memory } = await getSystemUsage();
+  const drive = await osUtils.drive.info("/");
+  const netStats = await osUtils.netstat.stats();
+
+  return {
+    cpu,
+    memory,
+    drive,
+    netStats,
+    timestamp: Date.now(),
+  };
+}
+
 // Enhanced API with support for new options
 export function getAPI(opts: Partial<MonitorOptions>) {
   const api = express.Router();
 
-  // Get room list with filtering and sorting
-  api.get("/", async (req: express.Request, res: express.Response) => {
-    try {
-      // Get query parameters for filtering and pagination
-      const filter = req.query.filter as string;
-      const sort = (req.query.sort as string) || opts.ui?.roomList?.defaultSort;
-      const order =
-        (req.query.order as "asc" | "desc") ||
-        opts.ui?.roomList?.defaultOrder ||
-        "asc";
-      const page = parseInt(req.query.page as string) || 1;
-      const limit =
-        parseInt(req.query.limit as string) ||
-        opts.ui?.roomList?.pageSize ||
-        100;
-
-      // Get all rooms
-      const rooms: any[] = await matchMaker.query({});
-
-      // Apply configured filters
-      let filteredRooms = applyRoomFilters(rooms, opts.filter);
-
-      // Apply additional query filter if provided
-      if (filter) {
-        try {
-          const filterObj = JSON.parse(filter);
-          filteredRooms = filteredRooms.filter((room) => {
-            // Simple field matching for now
-            return Object.entries(filterObj).every(([key, value]) => {
-              return (
-                room[key] === value ||
-                (room.metadata && room.metadata[key] === value)
-              );
-            });
-          });
-        } catch (e) {
-          // Invalid filter JSON, ignore it
-          console.error("Invalid filter JSON:", filter);
-        }
-      }
-
-      // Apply sorting
-      const sortedRooms = applySorting(filteredRooms, sort, order);
-
-      // Apply pagination
-      const startIndex = (page - 1) * limit;
-      const endIndex = page * limit;
-      const paginatedRooms = sortedRooms.slice(startIndex, endIndex);
-
-      // Determine which columns to show
-      const columns = opts.columns || [
-        "roomId",
-        "name",
-        "clients",
-        "maxClients",
-        "locked",
-        "elapsedTime",
-      ];
+  // Authenticate every request, and resolve its permissions
+  api.use(getAuthMiddleware(opts));
 
-      // Add "processId" column if present in any room
-      if (!opts.columns && rooms[0] && rooms[0].publicAddress !== undefined) {
-        columns.push("publicAddress");
-      }
+  // Destination of the audit trail (if enabled)
+  const auditSink = getAuditSink(opts);
 
-      // Calculate total connections
-      let connections: number = 0;
+  // Background sampler of server metrics (if enabled)
+  const metricsHistory = getMetricsHistory(opts);
 
-      // Format room data
-      const formattedRooms = paginatedRooms.map((room) => {
-        const data = JSON.parse(JSON.stringify(room));
+  // Alert rules (if configured)
+  const alertManager = getAlertManager(opts, metricsHistory);
 
-        // Count connections
-        connections += room.clients;
+  // Data sources for realtime transports
+  const provider: RealtimeDataProvider = {
+    getRoomList: (params, access, usage) =>
+      getRoomList(opts, params, access, usage),
+    getRoomInspectData: (roomId, access) =>
+      getRoomInspectData(opts, roomId, access),
+    getServerMetrics,
+  };
 
-        // Additional data
-        data.locked = room.locked || false;
-        data.private = room.private;
-        data.maxClients = `${room.maxClients}`;
-        data.elapsedTime = Date.now() - new Date(room.createdAt).getTime();
+  // Realtime push transport (WebSocket)
+  const realtime = isRealtimeTransport(opts, "websocket")
+    ? new RealtimeServer(opts, provider)
+    : undefined;
 
-        return data;
-      });
+  // Get room list with filtering and sorting
+  api.get("/", async (req: express.Request, res: express.Response) => {
+    const view = req.query.view as string;
 
-      // Get system information
-      const cpu = await osUtils.cpu.usage();
-      const memory = await osUtils.mem.used();
+    if (view && !getRoomFilter(view)) {
+      return handleError(res, `Unknown view ${view}`, 400);
+    }
 
-      // Return formatted response with pagination info
-      res.json({
-        columns,
-        rooms: formattedRooms,
-        pagination: {
-          total: filteredRooms.length,
-          page,
-          limit,
-          pages: Math.ceil(filteredRooms.length / limit),
-        },
-        connections,
-        cpu,
-        memory,
-        // Include available actions if configured
-        actions: {
-          room: opts.actions?.room?.map((action) => ({
-            id: action.id,
-            name: action.name,
-            description: action.description,
-            icon: action.icon,
-            confirmRequired: action.confirmRequired,
-          })),
-          client: opts.actions?.client?.map((action) => ({
-            id: action.id,
-            name: action.name,
-            description: action.description,
-            icon: action.icon,
-            confirmRequired: action.confirmRequired,
-          })),
+    try {
+      const roomList = await getRoomList(
+        opts,
+        {
+          filter: req.query.filter as string,
+          view,
+          sort: req.query.sort as string,
+          order: req.query.order as "asc" | "desc",
+          page: parseInt(req.query.page as string),
+          limit: parseInt(req.query.limit as string),
         },
-        // Include access control permissions
-        access: opts.access,
-      });
+        getRequestAccess(res),
+      );
+
+      res.json({ ...roomList, principal: getRequestPrincipal(res) });
     } catch (e) {
       const message = e.message;
-      handleError(res, message);
+      handleError(res, message, e.status);
     }
   });
 
@@ -203,37 +436,14 @@ export function getAPI(opts: Partial<MonitorOptions>) {
     const roomId = req.query.roomId as string;
 
     try {
+      const access = getRequestAccess(res);
+
       // Check access permissions
-      if (opts.access?.allowStateInspection === false) {
+      if (!hasPermission(access, "allowStateInspection")) {
         return handleError(res, "State inspection is not allowed", 403);
       }
 
-      const inspectData = await matchMaker.remoteRoomCall(
-        roomId,
-        "getInspectData",
-      );
-
-      // Add available room actions
-      if (opts.actions?.room) {
-        inspectData.actions = opts.actions.room.map((action) => ({
-          id: action.id,
-          name: action.name,
-          description: action.description,
-          icon: action.icon,
-          confirmRequired: action.confirmRequired,
-        }));
-      }
-
-      // Add available client actions
-      if (opts.actions?.client) {
-        inspectData.clientActions = opts.actions.client.map((action) => ({
-          id: action.id,
-          name: action.name,
-          description: action.description,
-          icon: action.icon,
-          confirmRequired: action.confirmRequired,
-        }));
-      }
+      const inspectData = await getRoomInspectData(opts, roomId, access);
 
       res.json(inspectData);
     } catch (e) {
@@ -242,99 +452,472 @@ export function getAPI(opts: Partial<MonitorOptions>) {
     }
   });
 
-  // Execute room method call (including standard and custom actions)
-  api.get("/room/call", async (req: express.Request, res: express.Response) => {
-    const roomId = req.query.roomId as string;
-    const method = req.query.method as string;
-    const args = JSON.parse((req.query.args as string) || "[]");
+  // Run a resolved call on a room (mutating calls are audited)
+  // @throws {RoomCallError}
+  const runRoomCall = async (
+    req: express.Request,
+    res: express.Response,
+    roomId: string,
+    method: string,
+    args: any[],
+    call: ResolvedRoomCall,
+  ) => {
+    const [room] = await matchMaker.query({ roomId });
+
+    if (!room) {
+      throw new RoomCallError(
+        UNAVAILABLE_ROOM_ERROR.replace("$roomId", roomId),
+        404,
+      );
+    }
+
+    let data: any;
 
     try {
-      // Check permissions for specific operations
-      if (method === "disconnect" && opts.access?.allowRoomDisposal === false) {
-        return handleError(res, "Room disposal is not allowed", 403);
+      data = await matchMaker.remoteRoomCall(roomId, call.method, call.args);
+
+      // recorded auth data is redacted like the inspector's
+      if (call.method === "_exportRecording") {
+        data = redactRecording(opts, data);
       }
+    } catch (e) {
+      if (call.mutating) {
+        await recordAudit(auditSink, req, res, {
+          roomId,
+          method,
+          args,
+          success: false,
+          error: e.message,
+        });
+      }
+
+      throw await getRoomCallError(roomId, e);
+    }
+
+    if (call.mutating) {
+      await recordAudit(auditSink, req, res, {
+        roomId,
+        method,
+        args,
+        success: true,
+        result: data,
+      });
+    }
+
+    return data;
+  };
+
+  // Execute an allowed room method (including standard and custom actions)
+  const callRoomMethod = async (
+    req: express.Request,
+    res: express.Response,
+    params: { roomId?: any; method?: any; args?: any },
+    readOnly: boolean,
+  ) => {
+    const { roomId, method, args = [] } = params;
+
+    if (typeof roomId !== "string" || !roomId) {
+      return handleError(res, "Missing roomId", 400);
+    }
+
+    const paramsError = checkCallParams(method, args);
+    if (paramsError) {
+      return handleError(res, paramsError, 400);
+    }
+
+    let call: ResolvedRoomCall;
+
+    try {
+      call = resolveRoomCall(opts, getRequestAccess(res), method, args);
+    } catch (e) {
+      return handleError(res, e.message, e.status);
+    }
+
+    if (call.mutating && readOnly) {
+      res.set("Allow", "POST");
+      return handleError(res, `Method ${method} must be called with POST`, 405);
+    }
+
+    try {
+      res.json(await runRoomCall(req, res, roomId, method, args, call));
+    } catch (e) {
+      handleError(res, e.message, e.status);
+    }
+  };
+
+  // Call a room method
+  api.post(
+    "/room/call",
+    express.json(),
+    (req: express.Request, res: express.Response) =>
+      callRoomMethod(req, res, req.body || {}, false),
+  );
+
+  // Call a room method on several rooms (a failing room doesn't abort the
+  // others: each one gets its own result)
+  api.post(
+    "/room/batch",
+    express.json(),
+    async (req: express.Request, res: express.Response) => {
+      const { roomIds, method, args = [] } = req.body || {};
 
       if (
-        method === "_sendMessageToClient" &&
-        opts.access?.allowClientMessages === false
+        !Array.isArray(roomIds) ||
+        roomIds.length === 0 ||
+        roomIds.some((roomId) => typeof roomId !== "string" || !roomId)
       ) {
-        return handleError(res, "Sending client messages is not allowed", 403);
+        return handleError(
+          res,
+          "Invalid roomIds: expected an array of room ids",
+          400,
+        );
+      }
+
+      const paramsError = checkCallParams(method, args);
+      if (paramsError) {
+        return handleError(res, paramsError, 400);
       }
 
-      // Handle custom actions
-      if (method.startsWith("customAction:")) {
-        const actionId = method.replace("customAction:", "");
+      let call: ResolvedRoomCall;
+
+      try {
+        call = resolveRoomCall(opts, getRequestAccess(res), method, args);
+      } catch (e) {
+        return handleError(res, e.message, e.status);
+      }
+
+      const results = await Promise.all(
+        Array.from(new Set<string>(roomIds)).map(async (roomId) => {
+          try {
+            const result = await runRoomCall(
+              req,
+              res,
+              roomId,
+              method,
+              args,
+              call,
+            );
+            return { roomId, success: true, result };
+          } catch (e) {
+            return { roomId, success: false, error: e.message };
+          }
+        }),
+      );
 
-        // Find the custom room action
-        const action = opts.actions?.room?.find((a) => a.id === actionId);
+      res.json({ results });
+    },
+  );
 
-        if (action && action.handler) {
-          // Call the handler function
-          const data = await matchMaker.remoteRoomCall(
-            roomId,
-            action.handler,
-            args,
+  // Call a read-only room method
+  api.get("/room/call", (req: express.Request, res: express.Response) => {
+    let args: any;
+
+    try {
+      args = JSON.parse((req.query.args as string) || "[]");
+    } catch (e) {
+      return handleError(res, "Invalid args: expected a JSON array", 400);
+    }
+
+    callRoomMethod(
+      req,
+      res,
+      { roomId: req.query.roomId, method: req.query.method, args },
+      true,
+    );
+  });
+
+  // Download the full state of a room (as JSON, or encoded)
+  api.get(
+    "/room/state",
+    async (req: express.Request, res: express.Response) => {
+      const roomId = req.query.roomId as string;
+      const format = (req.query.format as string) || "json";
+
+      if (!hasPermission(getRequestAccess(res), "allowStateInspection")) {
+        return handleError(res, "State inspection is not allowed", 403);
+      }
+
+      if (format !== "json" && format !== "binary") {
+        return handleError(res, `Unknown format ${format}`, 400);
+      }
+
+      let exported: any;
+
+      try {
+        exported = await matchMaker.remoteRoomCall(roomId, "_exportState", [
+          format,
+        ]);
+      } catch (e) {
+        const message = UNAVAILABLE_ROOM_ERROR.replace("$roomId", roomId);
+        return handleError(res, message, 404);
+      }
+
+      const filename = `state-${exported.roomName}-${roomId}`;
+
+      if (format === "binary") {
+        res.attachment(`${filename}.bin`);
+        res.type("application/octet-stream");
+        res.send(Buffer.from(exported.bytes, "base64"));
+      } else {
+        res.attachment(`${filename}.json`);
+        res.json(exported);
+      }
+    },
+  );
+
+  // Restore a room's state from a JSON export
+  api.post(
+    "/room/state",
+    express.json({ limit: UPLOAD_BODY_LIMIT }),
+    async (req: express.Request, res: express.Response) => {
+      const roomId = req.query.roomId as string;
+
+      if (!hasPermission(getRequestAccess(res), "allowStateModification")) {
+        return handleError(res, "State modification is not allowed", 403);
+      }
+
+      if (!roomId) {
+        return handleError(res, "Missing roomId", 400);
+      }
+
+      // the state itself isn't kept in the audit trail
+      const args = [
+        { roomName: req.body?.roomName, exportedFrom: req.body?.roomId },
+      ];
+
+      try {
+        const [room] = await matchMaker.query({ roomId });
+
+        if (!room) {
+          return handleError(
+            res,
+            UNAVAILABLE_ROOM_ERROR.replace("$roomId", roomId),
+            404,
           );
-          return res.json(data);
         }
+      } catch (e) {
+        return handleError(res, e.message);
+      }
 
-        return handleError(res, `Custom action ${actionId} not found`, 404);
+      try {
+        const data = await matchMaker.remoteRoomCall(roomId, "_importState", [
+          req.body,
+        ]);
+
+        await recordAudit(auditSink, req, res, {
+          roomId,
+          method: "_importState",
+          args,
+          success: true,
+          result: data,
+        });
+
+        res.json(data);
+      } catch (e) {
+        await recordAudit(auditSink, req, res, {
+          roomId,
+          method: "_importState",
+          args,
+          success: false,
+          error: e.message,
+        });
+
+        // e.g. the room rejected the import (different room type)
+        const error = await getRoomCallError(roomId, e);
+        handleError(res, error.message, error.status);
+      }
+    },
+  );
+
+  // Replay a recorded session into a new room
+  api.post(
+    "/replay",
+    express.json({ limit: UPLOAD_BODY_LIMIT }),
+    async (req: express.Request, res: express.Response) => {
+      // recorded auth data and messages are replayed as is: this is as
+      // powerful as modifying the state
+      if (!hasPermission(getRequestAccess(res), "allowStateModification")) {
+        return handleError(res, "State modification is not allowed", 403);
       }
 
-      // Handle custom client actions
-      if (method.startsWith("customClientAction:")) {
-        const parts = method.replace("customClientAction:", "").split(":");
-        const actionId = parts[0];
-        const clientId = parts[1];
-
-        // Find the custom client action
-        const action = opts.actions?.client?.find((a) => a.id === actionId);
-
-        if (action && action.handler) {
-          // Call the handler function with client ID
-          const data = await matchMaker.remoteRoomCall(roomId, action.handler, [
-            clientId,
-            ...args,
-          ]);
-          return res.json(data);
-        }
+      const { recording, speed = 1 } = req.body || {};
 
+      if (typeof speed !== "number" || !(speed > 0)) {
         return handleError(
           res,
-          `Custom client action ${actionId} not found`,
-          404,
+          "Invalid speed: expected a positive number",
+          400,
         );
       }
 
-      // Execute standard method call
-      const data = await matchMaker.remoteRoomCall(roomId, method, args);
-      res.json(data);
+      let session: SessionRecording;
+
+      try {
+        session = validateRecording(recording);
+      } catch (e) {
+        return handleError(res, e.message, 400);
+      }
+
+      // the recording itself isn't kept in the audit trail
+      const args = [
+        { roomName: session.roomName, roomId: session.roomId, speed },
+      ];
+
+      try {
+        const room = await replaySession(session, speed);
+
+        await recordAudit(auditSink, req, res, {
+          roomId: room.roomId,
+          method: "replay",
+          args,
+          success: true,
+          result: room,
+        });
+
+        res.json(room);
+      } catch (e) {
+        await recordAudit(auditSink, req, res, {
+          roomId: session.roomId,
+          method: "replay",
+          args,
+          success: false,
+          error: e.message,
+        });
+
+        // e.g. room type not defined on this server
+        handleError(res, e.message, 400);
+      }
+    },
+  );
+
+  // New endpoint: Get server metrics
+  api.get("/metrics", async (req: express.Request, res: express.Response) => {
+    try {
+      res.json(await getServerMetrics());
     } catch (e) {
-      const message = UNAVAILABLE_ROOM_ERROR.replace("$roomId", roomId);
-      handleError(res, message);
+      handleError(res, e.message);
     }
   });
 
-  // New endpoint: Get server metrics
-  api.get("/metrics", async (req: express.Request, res: express.Response) => {
+  // Server and room metrics, to be scraped by Prometheus
+  if (opts.metrics?.prometheus?.enabled !== false) {
+    api.get(
+      "/metrics/prometheus",
+      async (req: express.Request, res: express.Response) => {
+        try {
+          res
+            .type(PROMETHEUS_CONTENT_TYPE)
+            .send(await getPrometheusMetrics(opts));
+        } catch (e) {
+          handleError(res, e.message);
+        }
+      },
+    );
+  }
+
+  // Get sampled server metrics over a time range
+  api.get("/metrics/history", (req: express.Request, res: express.Response) => {
+    if (!metricsHistory) {
+      return handleError(res, "Metrics history is not enabled", 404);
+    }
+
+    const [from, to, step] = ["from", "to", "step"].map((param) =>
+      req.query[param] !== undefined ? Number(req.query[param]) : undefined,
+    );
+
+    if ([from, to, step].some((value) => Number.isNaN(value))) {
+      return handleError(res, "from, to and step must be numbers", 400);
+    }
+
+    if (step !== undefined && step <= 0) {
+      return handleError(res, "step must be positive", 400);
+    }
+
+    if (from !== undefined && to !== undefined && from > to) {
+      return handleError(res, "from must be before to", 400);
+    }
+
+    res.json(metricsHistory.query({ from, to, step }));
+  });
+
+  // List active alerts
+  api.get("/alerts", (req: express.Request, res: express.Response) => {
+    res.json({
+      enabled: alertManager !== undefined,
+      alerts: alertManager?.getAlerts() || [],
+    });
+  });
+
+  // List processes, with their room count, CCU and usage
+  api.get("/processes", async (req: express.Request, res: express.Response) => {
+    try {
+      res.json({ processes: await getProcesses() });
+    } catch (e) {
+      handleError(res, e.message);
+    }
+  });
+
+  // Browse the audit trail
+  api.get("/audit", async (req: express.Request, res: express.Response) => {
+    if (!hasPermission(getRequestAccess(res), "allowAuditLog")) {
+      return handleError(res, "Audit log access is not allowed", 403);
+    }
+
+    if (!auditSink?.query) {
+      return handleError(res, "Audit trail is not enabled", 404);
+    }
+
+    const query: AuditQuery = {
+      roomId: (req.query.roomId as string) || undefined,
+      method: (req.query.method as string) || undefined,
+      principal: (req.query.principal as string) || undefined,
+      success:
+        req.query.success !== undefined
+          ? req.query.success === "true"
+          : undefined,
+      from: parseInt(req.query.from as string) || undefined,
+      to: parseInt(req.query.to as string) || undefined,
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 50,
+    };
+
     try {
-      const cpu = await osUtils.cpu.usage();
-      const memory = await osUtils.mem.used();
-      const drive = await osUtils.drive.info("/");
-      const netStats = await osUtils.netstat.stats();
+      const { entries, total } = await auditSink.query(query);
 
       res.json({
-        cpu,
-        memory,
-        drive,
-        netStats,
-        timestamp: Date.now(),
+        entries,
+        pagination: {
+          total,
+          page: query.page,
+          limit: query.limit,
+          pages: Math.ceil(total / query.limit),
+        },
       });
     } catch (e) {
       handleError(res, e.message);
     }
   });
 
+  // Issue a ticket to connect to the realtime WebSocket channel
+  api.get("/realtime", (req: express.Request, res: express.Response) => {
+    res.set("Cache-Control", "no-store");
+
+    if (!realtime) {
+      return res.json({ transport: getRealtimeSettings(opts).transport });
+    }
+
+    realtime.attach(req, `${req.baseUrl}/ws`);
+    res.json({
+      transport: "websocket",
+      ticket: realtime.createTicket(getRequestAccess(res)),
+    });
+  });
+
+  // Server-Sent Events stream (for deployments where WebSocket is unavailable)
+  if (isRealtimeTransport(opts, "sse")) {
+    api.get("/stream", getStreamHandler(opts, provider));
+  }
+
   // Add health check endpoint
   api.get("/health", (req: express.Request, res: express.Response) => {
     res.json({ status: "ok" });
@@ -0,0 +1,162 @@
+//
+// Audit trail of mutating monitor operations
+//
+import type express from "express";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+
+import { getRequestPrincipal } from "./auth.js";
+import type { MonitorOptions, Principal } from "./index.js";
+
+// Default location of the audit file (relative to the working directory)
+const DEFAULT_AUDIT_FILE = "monitor-audit.jsonl";
+
+export interface AuditEntry {
+  timestamp: number;
+  principal?: Principal;
+  ip?: string;
+  roomId: string;
+  method: string;
+  args: any[];
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+export interface AuditQuery {
+  roomId?: string;
+  method?: string;
+  // Id of the principal
+  principal?: string;
+  success?: boolean;
+  // Time range (inclusive)
+  from?: number;
+  to?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditQueryResult {
+  // Matching entries, most recent first
+  entries: AuditEntry[];
+  total: number;
+}
+
+/**
+ * Destination of audit entries
+ */
+export interface AuditSink {
+  write(entry: AuditEntry): void | Promise<void>;
+  // Sinks without `query` can't be browsed from the monitor
+  query?(query: AuditQuery): Promise<AuditQueryResult>;
+}
+
+// Check whether an entry matches the query filters
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery) {
+  return (
+    (query.roomId === undefined || entry.roomId === query.roomId) &&
+    (query.method === undefined || entry.method === query.method) &&
+    (query.principal === undefined ||
+      entry.principal?.id === query.principal) &&
+    (query.success === undefined || entry.success === query.success) &&
+    (query.from === undefined || entry.timestamp >= query.from) &&
+    (query.to === undefined || entry.timestamp <= query.to)
+  );
+}
+
+/**
+ * Append-only JSON Lines file
+ */
+export class FileAuditSink implements AuditSink {
+  // Pending write, so entries are appended in order
+  protected writing: Promise<void> = Promise.resolve();
+
+  constructor(public readonly file: string = DEFAULT_AUDIT_FILE) {
+    this.file = path.resolve(file);
+  }
+
+  write(entry: AuditEntry) {
+    const line = JSON.stringify(entry) + "\n";
+
+    this.writing = this.writing
+      .then(() => fs.promises.appendFile(this.file, line))
+      .catch((e) => console.error("@colyseus/monitor: audit write failed", e));
+
+    return this.writing;
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    // Make sure pending entries are included
+    await this.writing;
+
+    if (!fs.existsSync(this.file)) {
+      return { entries: [], total: 0 };
+    }
+
+    const matches: AuditEntry[] = [];
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.file),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line) continue;
+
+      let entry: AuditEntry;
+
+      try {
+        entry = JSON.parse(line);
+      } catch (e) {
+        // Skip corrupted lines (e.g. partially written)
+        continue;
+      }
+
+      if (matchesAuditQuery(entry, query)) {
+        matches.push(entry);
+      }
+    }
+
+    matches.reverse();
+
+    return {
+      entries: matches.slice((page - 1) * limit, page * limit),
+      total: matches.length,
+    };
+  }
+}
+
+// Get the configured audit sink (if auditing is enabled)
+export function getAuditSink(opts: Partial<MonitorOptions>) {
+  const audit = opts.audit;
+
+  if (!audit || audit.enabled === false) {
+    return undefined;
+  }
+
+  return audit.sink || new FileAuditSink(audit.file);
+}
+
+// Record a mutating operation performed through the API
+export async function recordAudit(
+  sink: AuditSink | undefined,
+  req: express.Request,
+  res: express.Response,
+  entry: Omit<AuditEntry, "timestamp" | "principal" | "ip">,
+) {
+  if (!sink) return;
+
+  try {
+    await sink.write({
+      timestamp: Date.now(),
+      principal: getRequestPrincipal(res),
+      ip: req.ip,
+      ...entry,
+    });
+  } catch (e) {
+    console.error("@colyseus/monitor: audit write failed", e);
+  }
+}
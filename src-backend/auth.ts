@@ -0,0 +1,200 @@
+//
+// Authentication and role-based access control
+//
+import crypto from "crypto";
+import type express from "express";
+
+import type {
+  AccessControlOptions,
+  Authenticator,
+  MonitorOptions,
+  MonitorRole,
+  Principal,
+} from "./index.js";
+import { hasPermission } from "./methods.js";
+
+// Permissions granted to each role (capped by `MonitorOptions.access`)
+const DEFAULT_ROLE_ACCESS: Record<MonitorRole, AccessControlOptions> = {
+  viewer: {
+    allowStateInspection: true,
+    allowStateModification: false,
+    allowClientMessages: false,
+    allowRoomDisposal: false,
+    allowRoomActions: false,
+    allowAuditLog: false,
+  },
+  operator: {
+    allowStateInspection: true,
+    allowStateModification: false,
+    allowClientMessages: true,
+    allowRoomDisposal: true,
+    allowRoomActions: true,
+    allowAuditLog: true,
+  },
+  admin: {
+    allowStateInspection: true,
+    allowStateModification: true,
+    allowClientMessages: true,
+    allowRoomDisposal: true,
+    allowRoomActions: true,
+    allowAuditLog: true,
+  },
+};
+
+const PERMISSIONS: Array<keyof AccessControlOptions> = [
+  "allowStateInspection",
+  "allowStateModification",
+  "allowClientMessages",
+  "allowRoomDisposal",
+  "allowRoomActions",
+  "allowAuditLog",
+];
+
+// Compare secrets in constant time
+function safeEqual(a: string, b: string) {
+  const hashA = crypto.createHash("sha256").update(a).digest();
+  const hashB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+// Find the entry of `secrets` matching `secret`
+function findSecret<T>(secrets: Record<string, T>, secret: string) {
+  let match: T | undefined;
+
+  // Go through every entry, so timing doesn't reveal which one matched
+  for (const key in secrets) {
+    if (safeEqual(key, secret)) {
+      match = secrets[key];
+    }
+  }
+
+  return match;
+}
+
+// Get the credentials of the `Authorization` header for the given scheme
+function getAuthorization(req: express.Request, scheme: string) {
+  const [type, credentials] = (req.headers.authorization || "").split(" ");
+  return type?.toLowerCase() === scheme.toLowerCase() ? credentials : undefined;
+}
+
+async function authenticate(
+  authenticator: Authenticator,
+  req: express.Request,
+): Promise<Principal | undefined> {
+  if (typeof authenticator === "function") {
+    return authenticator(req);
+  }
+
+  if (authenticator.type === "basic") {
+    const credentials = getAuthorization(req, "Basic");
+    if (!credentials) return undefined;
+
+    const decoded = Buffer.from(credentials, "base64").toString();
+    const separator = decoded.indexOf(":");
+    const username = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+
+    const user =
+      separator !== -1 &&
+      Object.prototype.hasOwnProperty.call(authenticator.users, username)
+        ? authenticator.users[username]
+        : undefined;
+
+    // Always compare, so timing doesn't reveal whether the user exists
+    const valid = safeEqual(user?.password ?? "", password);
+
+    return user && valid ? { id: username, role: user.role } : undefined;
+  }
+
+  if (authenticator.type === "bearer") {
+    // EventSource can't send headers: accept the token as a query parameter,
+    // on the Server-Sent Events stream only (URLs end up in logs and history)
+    const token =
+      getAuthorization(req, "Bearer") ||
+      (req.method === "GET" && req.path === "/stream"
+        ? (req.query.access_token as string)
+        : undefined);
+
+    return typeof token === "string" && token
+      ? findSecret(authenticator.tokens, token)
+      : undefined;
+  }
+
+  return undefined;
+}
+
+// Resolve the permissions of a request
+export function resolveAccess(
+  opts: Partial<MonitorOptions>,
+  principal?: Principal,
+): AccessControlOptions {
+  const roleAccess = principal && {
+    ...DEFAULT_ROLE_ACCESS[principal.role],
+    ...opts.auth?.roles?.[principal.role],
+  };
+
+  const access: AccessControlOptions = {};
+
+  PERMISSIONS.forEach((permission) => {
+    access[permission] =
+      hasPermission(opts.access, permission) &&
+      (!roleAccess || hasPermission(roleAccess, permission));
+  });
+
+  return access;
+}
+
+// Get the permissions of the current request (resolved by the auth middleware)
+export function getRequestAccess(res: express.Response): AccessControlOptions {
+  return res.locals.access;
+}
+
+// Get the authenticated principal of the current request (if any)
+export function getRequestPrincipal(
+  res: express.Response,
+): Principal | undefined {
+  return res.locals.principal;
+}
+
+/**
+ * Authenticate requests using `MonitorOptions.auth`, and resolve their
+ * permissions. Unauthenticated requests are rejected with 401.
+ */
+export function getAuthMiddleware(
+  opts: Partial<MonitorOptions>,
+): express.RequestHandler {
+  return async (req, res, next) => {
+    const authenticator = opts.auth?.authenticator;
+
+    if (!authenticator) {
+      res.locals.access = resolveAccess(opts);
+      return next();
+    }
+
+    let principal: Principal | undefined;
+
+    try {
+      principal = await authenticate(authenticator, req);
+    } catch (e) {
+      return next(e);
+    }
+
+    if (!principal || !DEFAULT_ROLE_ACCESS[principal.role]) {
+      if (typeof authenticator !== "function") {
+        res.set(
+          "WWW-Authenticate",
+          authenticator.type === "basic"
+            ? `Basic realm="${authenticator.realm || "Colyseus Monitor"}"`
+            : "Bearer",
+        );
+      }
+
+      res.status(401);
+      return res.json({ error: true, message: "Authentication required" });
+    }
+
+    res.locals.principal = { id: principal.id, role: principal.role };
+    res.locals.access = resolveAccess(opts, principal);
+    next();
+  };
+}
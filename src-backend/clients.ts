@@ -0,0 +1,59 @@
+//
+// Client details exposed by the room inspector
+//
+import type { MonitorOptions } from "./index.js";
+import type { SessionRecording } from "./recorder.js";
+
+const REDACTED = "[redacted]";
+
+// Keys holding secrets (e.g. `password`, `accessToken`, `apiKey`)
+const SECRET_KEY = /pass|secret|token|key|credential/i;
+
+// Default redaction: hide values of secret-looking keys, at any depth
+export function redactSecrets(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item));
+  } else if (value !== null && typeof value === "object") {
+    const redacted: Record<string, any> = {};
+
+    for (const key in value) {
+      redacted[key] = SECRET_KEY.test(key)
+        ? REDACTED
+        : redactSecrets(value[key]);
+    }
+
+    return redacted;
+  }
+
+  return value;
+}
+
+// Redact the `auth` data of each client before it leaves the server
+export function redactClients(opts: Partial<MonitorOptions>, clients: any[]) {
+  const redactAuth = opts.clients?.redactAuth || redactSecrets;
+
+  return clients.map((client) => ({
+    ...client,
+    auth:
+      client.auth !== undefined
+        ? redactAuth(client.auth, client.sessionId)
+        : undefined,
+  }));
+}
+
+// Redact the `auth` data recorded with "join" events of a session recording
+export function redactRecording(
+  opts: Partial<MonitorOptions>,
+  recording: SessionRecording,
+): SessionRecording {
+  const redactAuth = opts.clients?.redactAuth || redactSecrets;
+
+  return {
+    ...recording,
+    events: recording.events.map((event) =>
+      event.auth !== undefined
+        ? { ...event, auth: redactAuth(event.auth, event.sessionId) }
+        : event,
+    ),
+  };
+}
@@ -1,18 +1,371 @@
 //
 // Monkey-patch Colyseus' default behaviour
 //
-import { Client, ClientPrivate, Room } from "@colyseus/core";
+import {
+  Client,
+  ClientPrivate,
+  ClientState,
+  Protocol,
+  Room,
+} from "@colyseus/core";
 
-function getStateSize(room) {
+import { getRoomLogBuffer, LogFilter, toSerializable } from "../logs.js";
+import { countRoomEvent } from "../prometheus.js";
+import {
+  getRoomRecorder,
+  replayEvents,
+  SessionRecording,
+  validateRecording,
+} from "../recorder.js";
+import { publishRoomEvent, RoomEvent } from "../realtime.js";
+import {
+  diffState,
+  getRoomSnapshots,
+  LIVE_STATE,
+  toPlainState,
+} from "../snapshots.js";
+import { getStateSchema } from "../reflection.js";
+import { getRoomStats } from "../stats.js";
+import { getRoomTraffic, serializePayload, TrafficFilter } from "../traffic.js";
+
+// Seconds a replay room is kept once the replay has finished (unless
+// clients are connected)
+const REPLAY_DISPOSE_DELAY = 5 * 60;
+
+// Full encoded state of the room (as sent to joining clients)
+function getFullState(room) {
   // TODO: `Serializer<T>` should provide a method for this (e.g. `serializer.hasState()`)
   const hasState =
     room._serializer.encoder || // schema v3
     room._serializer.state || // schema v2
     room._serializer.previousState; // legacy-fossil-delta
-  const fullState = hasState && room._serializer.getFullState();
+  return hasState ? room._serializer.getFullState() : undefined;
+}
+
+function getStateSize(room) {
+  const fullState = getFullState(room);
   return (fullState && (fullState.byteLength || fullState.length)) || 0;
 }
 
+// Call `onError` when the given room method throws (or rejects)
+function observeErrors(room, method: string, onError: (e, args) => void) {
+  const fn = room[method];
+
+  if (!fn) {
+    return;
+  }
+
+  room[method] = function (...args: any[]) {
+    try {
+      const result = fn.apply(this, args);
+      return result instanceof Promise
+        ? result.catch((e) => {
+            onError(e, args);
+            throw e;
+          })
+        : result;
+    } catch (e) {
+      onError(e, args);
+      throw e;
+    }
+  };
+}
+
+// Capture lifecycle events into the room log, and announce them to realtime
+// monitor subscribers
+const __init = (<any>Room.prototype).__init;
+(<any>Room.prototype).__init = function () {
+  __init.call(this);
+
+  const logs = getRoomLogBuffer(this);
+  const recorder = getRoomRecorder(this);
+
+  const publish = (type: RoomEvent["type"], client?: Client) =>
+    publishRoomEvent({
+      type,
+      roomId: this.roomId,
+      name: this.roomName,
+      sessionId: client?.sessionId,
+    });
+
+  // `__init()` is called before `onCreate()`
+  const onCreate = this.onCreate;
+  this.onCreate = async (...args: any[]) => {
+    recorder.createOptions = args[0];
+    const result = await onCreate?.apply(this, args);
+    logs.add("info", "Room created");
+    publish("create");
+    return result;
+  };
+
+  // Record joins and leaves (with the arguments needed to replay them)
+  const onJoin = this.onJoin;
+  this.onJoin = (client: Client, options?: any, auth?: any) => {
+    recorder.add({ type: "join", sessionId: client.sessionId, options, auth });
+    return onJoin?.call(this, client, options, auth);
+  };
+
+  const onLeave = this.onLeave;
+  this.onLeave = (client: Client, consented?: boolean) => {
+    recorder.add({ type: "leave", sessionId: client.sessionId, consented });
+    return onLeave?.call(this, client, consented);
+  };
+
+  observeErrors(this, "onCreate", (e) =>
+    logs.add("error", `onCreate failed: ${e?.message}`, e),
+  );
+  observeErrors(this, "onJoin", (e, [client]) =>
+    logs.add(
+      "error",
+      `onJoin failed for ${client.sessionId}: ${e?.message}`,
+      e,
+    ),
+  );
+  observeErrors(this, "onLeave", (e, [client]) =>
+    logs.add(
+      "error",
+      `onLeave failed for ${client.sessionId}: ${e?.message}`,
+      e,
+    ),
+  );
+  observeErrors(this, "onDispose", (e) =>
+    logs.add("error", `onDispose failed: ${e?.message}`, e),
+  );
+
+  this._events.on("join", (client: Client) => {
+    logs.add("info", `Client ${client.sessionId} joined`);
+    countRoomEvent(this.roomName, "join");
+    publish("join", client);
+  });
+  this._events.on("leave", (client: Client) => {
+    // not emitted while waiting for reconnection
+    getRoomStats(this).clients.delete(client.sessionId);
+    logs.add("info", `Client ${client.sessionId} left`);
+    countRoomEvent(this.roomName, "leave");
+    publish("leave", client);
+  });
+  this._events.on("lock", () => {
+    logs.add("info", "Room locked");
+    publish("lock");
+  });
+  this._events.on("unlock", () => {
+    logs.add("info", "Room unlocked");
+    publish("unlock");
+  });
+  this._events.on("visibility-change", (isPrivate: boolean) => {
+    logs.add("info", isPrivate ? "Room made private" : "Room made public");
+    publish("update");
+  });
+  this._events.once("dispose", () => {
+    logs.add("info", "Room disposed");
+    publish("dispose");
+  });
+};
+
+// Capture errors thrown by message handlers into the room log, and count
+// incoming messages
+const onMessage = (<any>Room.prototype).onMessage;
+(<any>Room.prototype).onMessage = function (messageType, callback, validate) {
+  const logs = getRoomLogBuffer(this);
+  const stats = getRoomStats(this);
+  const handler = {
+    callback: (client, ...args: any[]) => {
+      // "*" handlers receive the message type as argument
+      const [type, payload] =
+        messageType === "*" ? [args[0], args[1]] : [messageType, args[0]];
+
+      stats.countMessageIn(type);
+      getRoomRecorder(this).add({
+        type: "message",
+        sessionId: client.sessionId,
+        messageType: type,
+        payload,
+      });
+
+      // captured message being handled (see `_onMessage`)
+      if (this._monitorIncoming) {
+        this._monitorIncoming.type = type;
+        this._monitorIncoming.payload = serializePayload(payload);
+      }
+
+      return callback(client, ...args);
+    },
+  };
+
+  observeErrors(handler, "callback", (e, [client]) =>
+    logs.add(
+      "error",
+      `onMessage "${messageType}" failed for ${client?.sessionId}: ${e?.message}`,
+      e,
+    ),
+  );
+
+  return onMessage.call(this, messageType, handler.callback, validate);
+};
+
+// Read the type of an encoded message (string or positive integer types)
+function readMessageType(buffer): string | number | undefined {
+  const prefix = buffer[1];
+
+  if (prefix >= 0xa0 && prefix <= 0xbf) {
+    // fixstr
+    return Buffer.from(buffer.subarray(2, 2 + (prefix & 0x1f))).toString();
+  } else if (prefix === 0xd9) {
+    // str 8
+    return Buffer.from(buffer.subarray(3, 3 + buffer[2])).toString();
+  } else if (prefix < 0x80) {
+    // positive fixint
+    return prefix;
+  }
+
+  return undefined;
+}
+
+// Count (and capture) messages received from each client
+const _onMessage = (<any>Room.prototype)._onMessage;
+(<any>Room.prototype)._onMessage = function (client, buffer) {
+  const code = buffer?.[0];
+
+  if (code !== Protocol.ROOM_DATA && code !== Protocol.ROOM_DATA_BYTES) {
+    return _onMessage.call(this, client, buffer);
+  }
+
+  const size = buffer.byteLength ?? buffer.length;
+
+  const clientStats = getRoomStats(this).getClient(client.sessionId);
+  clientStats.messagesIn++;
+  clientStats.bytesIn += size;
+
+  const traffic = getRoomTraffic(this);
+  if (!traffic.capturing) {
+    return _onMessage.call(this, client, buffer);
+  }
+
+  // type and decoded payload are filled in by the message handler
+  this._monitorIncoming = traffic.add({
+    direction: "in",
+    sessionId: client.sessionId,
+    type: readMessageType(buffer),
+    size,
+  });
+
+  try {
+    return _onMessage.call(this, client, buffer);
+  } finally {
+    this._monitorIncoming = undefined;
+  }
+};
+
+// Capture an outgoing message, while its encoded size is measured by
+// `client.raw()`
+function captureOutgoing(room, entry, send: () => any) {
+  const traffic = getRoomTraffic(room);
+
+  if (!traffic.capturing) {
+    return send();
+  }
+
+  room._monitorOutgoing = traffic.add(entry);
+
+  try {
+    return send();
+  } finally {
+    room._monitorOutgoing = undefined;
+  }
+}
+
+// Count messages sent to each client, and the size of state patches
+const _onJoin = (<any>Room.prototype)._onJoin;
+(<any>Room.prototype)._onJoin = function (client, authContext, ...args: any[]) {
+  const room = this;
+  const stats = getRoomStats(room);
+  const clientStats = stats.getClient(client.sessionId);
+
+  if (authContext?.ip) {
+    clientStats.ip = authContext.ip;
+  }
+
+  const send = client.send;
+  client.send = function (...sendArgs: any[]) {
+    stats.directSends.add();
+    return captureOutgoing(
+      room,
+      {
+        direction: "out",
+        sessionId: client.sessionId,
+        type: sendArgs[0],
+        payload: sendArgs[1],
+      },
+      () => send.apply(this, sendArgs),
+    );
+  };
+
+  const sendBytes = client.sendBytes;
+  client.sendBytes = function (...sendArgs: any[]) {
+    stats.directSends.add();
+    return captureOutgoing(
+      room,
+      {
+        direction: "out",
+        sessionId: client.sessionId,
+        type: sendArgs[0],
+        payload: sendArgs[1],
+      },
+      () => sendBytes.apply(this, sendArgs),
+    );
+  };
+
+  const raw = client.raw;
+  client.raw = function (data, ...rawArgs: any[]) {
+    const bytes = data?.byteLength ?? data?.length ?? 0;
+
+    clientStats.messagesOut++;
+    clientStats.bytesOut += bytes;
+
+    if (room._monitorOutgoing) {
+      room._monitorOutgoing.size = bytes;
+    }
+
+    if (room._monitorPatch && data?.[0] === Protocol.ROOM_STATE_PATCH) {
+      // the same patch is sent to every client (unless filtered by views)
+      room._monitorPatch.bytes = Math.max(
+        room._monitorPatch.bytes,
+        data.byteLength ?? data.length,
+      );
+    }
+    return raw.call(this, data, ...rawArgs);
+  };
+
+  return _onJoin.call(this, client, authContext, ...args);
+};
+
+const broadcastMessageType = (<any>Room.prototype).broadcastMessageType;
+(<any>Room.prototype).broadcastMessageType = function (...args: any[]) {
+  getRoomStats(this).broadcasts.add();
+  return captureOutgoing(
+    this,
+    { direction: "out", broadcast: true, type: args[0], payload: args[1] },
+    () => broadcastMessageType.apply(this, args),
+  );
+};
+
+const broadcastPatch = (<any>Room.prototype).broadcastPatch;
+(<any>Room.prototype).broadcastPatch = function () {
+  this._monitorPatch = { bytes: 0 };
+
+  try {
+    const hasChanges = broadcastPatch.call(this);
+
+    if (hasChanges) {
+      getRoomStats(this).countPatch(this._monitorPatch.bytes);
+    }
+
+    return hasChanges;
+  } finally {
+    this._monitorPatch = undefined;
+  }
+};
+
 (<any>Room.prototype).getAvailableData = function () {
   return {
     clients: this.clients.length,
@@ -28,7 +381,21 @@ function getStateSize(room) {
   const locked = this.locked;
   const data = this.getAvailableData();
 
-  return { ...data, locked, elapsedTime, stateSize };
+  const rates = getRoomStats(this).getRates();
+
+  return { ...data, locked, elapsedTime, stateSize, ...rates };
+};
+
+// Rates listed in the room list (cheap: the state isn't encoded)
+(<any>Room.prototype)._getRoomRates = async function () {
+  return getRoomStats(this).getRates();
+};
+
+const CLIENT_STATES = {
+  [ClientState.JOINING]: "joining",
+  [ClientState.JOINED]: "joined",
+  [ClientState.RECONNECTED]: "joined",
+  [ClientState.LEAVING]: "leaving",
 };
 
 (<any>Room.prototype).getInspectData = async function () {
@@ -37,13 +404,59 @@ function getStateSize(room) {
   const roomElapsedTime = this.clock.elapsedTime;
 
   const data = this.getAvailableData();
-  const clients = this.clients.map((client: Client & ClientPrivate) => ({
-    sessionId: client.sessionId,
-    elapsedTime: roomElapsedTime - client._joinedAt,
-  }));
+  const roomStats = getRoomStats(this);
+
+  const clients = this.clients.map((client: Client & ClientPrivate) => {
+    const clientStats = roomStats.getClient(client.sessionId);
+    return {
+      sessionId: client.sessionId,
+      elapsedTime: roomElapsedTime - client._joinedAt,
+      state: CLIENT_STATES[client.state] || "unknown",
+      ip: clientStats.ip,
+      userData: toSerializable(client.userData),
+      auth: toSerializable(client.auth),
+      // stand-in of a replayed session
+      replayed: (client as any).replayed,
+      ...clientStats.toJSON(),
+    };
+  });
+
+  // clients that left, and may still reconnect (see `allowReconnection()`)
+  Object.values(this._reconnections).forEach(([sessionId]) => {
+    if (clients.some((client) => client.sessionId === sessionId)) {
+      return;
+    }
+
+    const clientStats = roomStats.getClient(sessionId);
+    clients.push({
+      sessionId,
+      elapsedTime: undefined,
+      state: "reconnecting",
+      ip: clientStats.ip,
+      userData: undefined,
+      auth: undefined,
+      ...clientStats.toJSON(),
+    });
+  });
+
   const locked = this.locked;
+  const isPrivate = this.listing.private;
+
+  const stats = roomStats.toJSON();
 
-  return { ...data, locked, clients, state, stateSize };
+  // declared types of the state (Schema states only)
+  const stateSchema = getStateSchema(state);
+
+  return {
+    ...data,
+    locked,
+    private: isPrivate,
+    clients,
+    state,
+    stateSchema,
+    stateSize,
+    stats,
+  };
 };
 
 // Actions
@@ -68,3 +481,528 @@ function getStateSize(room) {
     }
   }
 };
+
+//
+// Listing (lock, visibility and metadata)
+//
+function getListingData(room: Room) {
+  return {
+    locked: room.locked,
+    private: room.listing.private,
+    metadata: room.metadata,
+  };
+}
+
+(<any>Room.prototype)._setLocked = async function (locked: boolean) {
+  if (typeof locked !== "boolean") {
+    throw new Error("Invalid locked: expected a boolean");
+  }
+
+  await (locked ? this.lock() : this.unlock());
+
+  return getListingData(this);
+};
+
+(<any>Room.prototype)._setPrivate = async function (isPrivate: boolean) {
+  if (typeof isPrivate !== "boolean") {
+    throw new Error("Invalid private: expected a boolean");
+  }
+
+  await this.setPrivate(isPrivate);
+
+  return getListingData(this);
+};
+
+// Replace the room's metadata (keys missing from `metadata` are removed)
+(<any>Room.prototype)._setMetadata = async function (metadata: any) {
+  if (
+    metadata === null ||
+    typeof metadata !== "object" ||
+    Array.isArray(metadata)
+  ) {
+    throw new Error("Invalid metadata: expected an object");
+  }
+
+  Object.keys(this.listing.metadata || {}).forEach((key) => {
+    if (!(key in metadata)) {
+      delete this.listing.metadata[key];
+    }
+  });
+
+  await this.setMetadata(metadata);
+
+  getRoomLogBuffer(this).add("info", "Room metadata updated");
+  publishRoomEvent({
+    type: "update",
+    roomId: this.roomId,
+    name: this.roomName,
+  });
+
+  return getListingData(this);
+};
+
+(<any>Room.prototype)._getRoomLogs = async function (filter: LogFilter = {}) {
+  return getRoomLogBuffer(this).query(filter);
+};
+
+//
+// Message traffic capture
+//
+(<any>Room.prototype)._startTrafficCapture = async function () {
+  const traffic = getRoomTraffic(this);
+  traffic.begin();
+  return { capturing: traffic.capturing };
+};
+
+(<any>Room.prototype)._stopTrafficCapture = async function () {
+  const traffic = getRoomTraffic(this);
+  traffic.end();
+  return { capturing: traffic.capturing };
+};
+
+(<any>Room.prototype)._clearTraffic = async function () {
+  getRoomTraffic(this).clear();
+  return { cleared: true };
+};
+
+(<any>Room.prototype)._getTraffic = async function (
+  filter: TrafficFilter = {},
+) {
+  return getRoomTraffic(this).query(filter);
+};
+
+//
+// Session recording and replay
+//
+(<any>Room.prototype)._getRecordingStatus = async function () {
+  return getRoomRecorder(this).getStatus();
+};
+
+(<any>Room.prototype)._startRecording = async function () {
+  const recorder = getRoomRecorder(this);
+  recorder.begin(this);
+  getRoomLogBuffer(this).add("info", "Session recording started");
+  return recorder.getStatus();
+};
+
+(<any>Room.prototype)._stopRecording = async function () {
+  const recorder = getRoomRecorder(this);
+  recorder.end();
+  getRoomLogBuffer(this).add("info", "Session recording stopped");
+  return recorder.getStatus();
+};
+
+(<any>Room.prototype)._exportRecording = async function () {
+  const recording = getRoomRecorder(this).recording;
+
+  if (!recording) {
+    throw new Error("no session has been recorded");
+  }
+
+  return recording;
+};
+
+// Feed a recorded session into this room (see `replaySession()`)
+(<any>Room.prototype)._replaySession = async function (
+  recording: SessionRecording,
+  speed: number = 1,
+) {
+  const { roomId, events, state } = validateRecording(recording);
+  const logs = getRoomLogBuffer(this);
+
+  // start from the state the recording started with
+  if (this.state && state !== undefined && state !== null) {
+    restoreState(this, state);
+  }
+
+  // replayed clients don't count as connections: keep the room alive
+  this.autoDispose = false;
+
+  logs.add(
+    "info",
+    `Replaying session of room ${roomId} (${events.length} events)`,
+  );
+
+  replayEvents(this, events, speed)
+    .then(
+      () => logs.add("info", "Replay finished"),
+      (e) => logs.add("error", `Replay failed: ${e?.message}`, e),
+    )
+    .then(() => {
+      // leave some time to inspect the result, then dispose once empty
+      this.autoDispose = true;
+      this.resetAutoDisposeTimeout(REPLAY_DISPOSE_DELAY);
+    });
+
+  return { events: events.length };
+};
+
+//
+// State snapshots
+//
+(<any>Room.prototype)._getStateSnapshots = async function () {
+  return getRoomSnapshots(this).list();
+};
+
+(<any>Room.prototype)._takeStateSnapshot = async function (name?: string) {
+  const { state, ...snapshot } = getRoomSnapshots(this).add(name, this.state);
+  return snapshot;
+};
+
+// Delete a snapshot, and get the remaining ones
+(<any>Room.prototype)._deleteStateSnapshot = async function (id: number) {
+  const snapshots = getRoomSnapshots(this);
+
+  if (!snapshots.remove(id)) {
+    throw new Error(`snapshot ${id} not found`);
+  }
+
+  return snapshots.list();
+};
+
+// Diff two snapshots (by id), or a snapshot and the live state
+(<any>Room.prototype)._diffStateSnapshots = async function (
+  from: number | typeof LIVE_STATE,
+  to: number | typeof LIVE_STATE = LIVE_STATE,
+) {
+  const getState = (id: number | typeof LIVE_STATE) => {
+    if (id === LIVE_STATE) {
+      return toPlainState(this.state);
+    }
+
+    const snapshot = getRoomSnapshots(this).get(id);
+    if (!snapshot) {
+      throw new Error(`snapshot ${id} not found`);
+    }
+
+    return snapshot.state;
+  };
+
+  return diffState(getState(from), getState(to));
+};
+
+//
+// State editing
+//
+
+// `$childType` from @colyseus/schema v3 (type of MapSchema/ArraySchema items)
+const CHILD_TYPE = "~childType";
+
+const INTEGER_RANGES: { [type: string]: [number, number] } = {
+  int8: [-128, 127],
+  uint8: [0, 255],
+  int16: [-32768, 32767],
+  uint16: [0, 65535],
+  int32: [-2147483648, 2147483647],
+  uint32: [0, 4294967295],
+  int64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  uint64: [0, Number.MAX_SAFE_INTEGER],
+};
+
+function isArraySchema(ref) {
+  return ref?.[CHILD_TYPE] !== undefined && typeof ref.at === "function";
+}
+
+function isMapSchema(ref) {
+  return (
+    ref?.[CHILD_TYPE] !== undefined &&
+    typeof ref.get === "function" &&
+    typeof ref.set === "function"
+  );
+}
+
+// Get the declared field (`{ name, type }`) of a Schema instance
+function getSchemaField(ref, fieldName: string) {
+  const metadata = ref?.constructor?.[(Symbol as any).metadata];
+  const index = metadata?.[fieldName];
+  return typeof index === "number" ? metadata[index] : undefined;
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function coercePrimitive(type: string, value: any, path: string) {
+  const invalid = () =>
+    new Error(`invalid value for "${path}": expected ${type}`);
+
+  switch (type) {
+    case "string":
+      if (value === null || typeof value === "object") throw invalid();
+      return String(value);
+
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      throw invalid();
+
+    case "bigint64":
+    case "biguint64":
+      try {
+        return BigInt(value);
+      } catch (e) {
+        throw invalid();
+      }
+
+    case "number":
+    case "float32":
+    case "float64":
+    case "int8":
+    case "uint8":
+    case "int16":
+    case "uint16":
+    case "int32":
+    case "uint32":
+    case "int64":
+    case "uint64": {
+      const num =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+
+      if (typeof num !== "number" || isNaN(num)) throw invalid();
+
+      const range = INTEGER_RANGES[type];
+      if (
+        range &&
+        (!Number.isInteger(num) || num < range[0] || num > range[1])
+      ) {
+        throw invalid();
+      }
+
+      return num;
+    }
+
+    default:
+      throw new Error(`unsupported type "${type}" at "${path}"`);
+  }
+}
+
+// Coerce a JSON value to the declared schema type
+function coerceValue(type: any, value: any, path: string) {
+  if (typeof type === "string") {
+    return coercePrimitive(type, value, path);
+  } else if (typeof type === "function") {
+    // child Schema: build a new instance, validating each field
+    if (!isPlainObject(value)) {
+      throw new Error(`invalid value for "${path}": expected object`);
+    }
+    const instance = new type();
+    for (const key in value) {
+      setStateValue(instance, key, value[key], `${path}.${key}`);
+    }
+    return instance;
+  } else {
+    throw new Error(
+      `cannot replace collection at "${path}": update its items instead`,
+    );
+  }
+}
+
+function getStateValue(ref, key: string, path: string) {
+  let value: any;
+
+  if (isArraySchema(ref)) {
+    value = ref.at(Number(key));
+  } else if (isMapSchema(ref)) {
+    value = ref.get(key);
+  } else if (getSchemaField(ref, key) || (isPlainObject(ref) && key in ref)) {
+    value = ref[key];
+  }
+
+  if (value === undefined || value === null) {
+    throw new Error(`"${path}" not found`);
+  }
+
+  return value;
+}
+
+function setStateValue(ref, key: string, value: any, path: string) {
+  if (isArraySchema(ref)) {
+    const index = Number(key);
+    if (!Number.isInteger(index) || index < 0 || index > ref.length) {
+      throw new Error(`invalid index for "${path}"`);
+    }
+    const item = coerceValue(ref[CHILD_TYPE], value, path);
+    if (index === ref.length) {
+      ref.push(item);
+    } else {
+      ref[index] = item;
+    }
+  } else if (isMapSchema(ref)) {
+    ref.set(key, coerceValue(ref[CHILD_TYPE], value, path));
+  } else if (ref?.constructor?.[(Symbol as any).metadata]) {
+    const field = getSchemaField(ref, key);
+    if (!field) {
+      throw new Error(`unknown field "${path}"`);
+    }
+    ref[key] = coerceValue(field.type, value, path);
+  } else if (isPlainObject(ref) && key in ref) {
+    // non-Schema state (e.g. fossil-delta serializer)
+    ref[key] = value;
+  } else {
+    throw new Error(`unknown field "${path}"`);
+  }
+}
+
+(<any>Room.prototype)._updateRoomState = async function (
+  path: string | Array<string | number>,
+  value: any,
+) {
+  const segments = (typeof path === "string" ? path.split(".") : path).map(
+    (segment) => `${segment}`,
+  );
+
+  if (!this.state || segments.length === 0 || segments.includes("")) {
+    throw new Error(`invalid state path "${segments.join(".")}"`);
+  }
+
+  let ref = this.state;
+  for (let i = 0; i < segments.length - 1; i++) {
+    ref = getStateValue(ref, segments[i], segments.slice(0, i + 1).join("."));
+  }
+
+  setStateValue(ref, segments[segments.length - 1], value, segments.join("."));
+
+  return { path: segments };
+};
+
+//
+// State export and import
+//
+
+// Restore a Schema instance (or plain object) from its JSON representation
+function restoreObject(ref, value: any, path: string) {
+  if (!isPlainObject(value)) {
+    throw new Error(`invalid value for "${path || "state"}": expected object`);
+  }
+
+  for (const key in value) {
+    restoreValue(ref, key, value[key], path ? `${path}.${key}` : key);
+  }
+}
+
+// Restore MapSchema/ArraySchema items, removing those not in `value`
+function restoreCollection(ref, value: any, path: string) {
+  const childType = ref[CHILD_TYPE];
+
+  const restoreItem = (key: string, item: any) => {
+    const current = isArraySchema(ref) ? ref.at(Number(key)) : ref.get(key);
+
+    if (typeof childType === "function" && current) {
+      restoreObject(current, item, `${path}.${key}`);
+    } else if (typeof childType === "function") {
+      const instance = new childType();
+      restoreObject(instance, item, `${path}.${key}`);
+      setStateValue(ref, key, instance, `${path}.${key}`);
+    } else {
+      setStateValue(ref, key, item, `${path}.${key}`);
+    }
+  };
+
+  if (isArraySchema(ref)) {
+    if (!Array.isArray(value)) {
+      throw new Error(`invalid value for "${path}": expected array`);
+    }
+    while (ref.length > value.length) {
+      ref.pop();
+    }
+    value.forEach((item, index) => restoreItem(`${index}`, item));
+  } else {
+    if (!isPlainObject(value)) {
+      throw new Error(`invalid value for "${path}": expected object`);
+    }
+    Array.from(ref.keys() as Iterable<string>)
+      .filter((key) => !(key in value))
+      .forEach((key) => ref.delete(key));
+    Object.keys(value).forEach((key) => restoreItem(key, value[key]));
+  }
+}
+
+function restoreValue(ref, key: string, value: any, path: string) {
+  const current = ref[key];
+  const field = getSchemaField(ref, key);
+
+  if (isArraySchema(current) || isMapSchema(current)) {
+    restoreCollection(current, value, path);
+  } else if (typeof field?.type === "function" && value !== null) {
+    // child Schema: restore in place when present
+    if (current) {
+      restoreObject(current, value, path);
+    } else {
+      const instance = new field.type();
+      restoreObject(instance, value, path);
+      ref[key] = instance;
+    }
+  } else if (field && typeof field.type === "object" && value !== null) {
+    throw new Error(`cannot restore "${path}": collection is not initialized`);
+  } else if (
+    !field &&
+    isPlainObject(ref) &&
+    !ref.constructor?.[(Symbol as any).metadata]
+  ) {
+    // non-Schema state (e.g. fossil-delta serializer)
+    ref[key] = value;
+  } else {
+    setStateValue(ref, key, value, path);
+  }
+}
+
+// Restore the whole state of a room (from its plain JSON)
+function restoreState(room: Room, state: any) {
+  // validate against a new instance first, so that an invalid state doesn't
+  // leave the room's state partially restored
+  const StateType = room.state.constructor;
+  if (StateType?.[(Symbol as any).metadata] && StateType.length === 0) {
+    restoreObject(new StateType(), state, "");
+  }
+
+  restoreObject(room.state, state, "");
+}
+
+(<any>Room.prototype)._exportState = async function (
+  format: "json" | "binary" = "json",
+) {
+  const exported = {
+    roomName: this.roomName,
+    roomId: this.roomId,
+    exportedAt: Date.now(),
+  };
+
+  if (format === "binary") {
+    const fullState = getFullState(this);
+    return {
+      ...exported,
+      encoding: "base64",
+      bytes: fullState ? Buffer.from(fullState).toString("base64") : "",
+    };
+  }
+
+  return { ...exported, state: toPlainState(this.state) };
+};
+
+// Restore a state exported with `_exportState()` (from a room of the same type)
+(<any>Room.prototype)._importState = async function (exported: any) {
+  if (!isPlainObject(exported) || exported.state === undefined) {
+    throw new Error("invalid state export: missing state");
+  }
+
+  if (exported.roomName !== this.roomName) {
+    throw new Error(
+      `cannot import a "${exported.roomName}" state into a "${this.roomName}" room`,
+    );
+  }
+
+  if (!this.state) {
+    throw new Error("room has no state");
+  }
+
+  restoreState(this, exported.state);
+
+  getRoomLogBuffer(this).add(
+    "info",
+    `State imported (exported from room ${exported.roomId})`,
+  );
+
+  return { stateSize: getStateSize(this) };
+};
@@ -0,0 +1,92 @@
+//
+// Named room filters
+//
+import type { FilterOptions } from "./index.js";
+
+// Predicate deciding whether a room (as listed by `matchMaker.query()`) is shown
+export type RoomFilterPredicate = (room: any) => boolean;
+
+export interface RoomFilter {
+  name: string;
+  predicate: RoomFilterPredicate;
+  // Shown in the room list "quick views"
+  label?: string;
+  description?: string;
+}
+
+const registeredFilters = new Map<string, RoomFilter>();
+
+/**
+ * Register a named room filter, to be used as `filter.customFilter` or as a
+ * "quick view" of the room list.
+ *
+ * @example
+ * ```
+ * registerRoomFilter("full", (room) => room.clients >= room.maxClients, {
+ *   label: "Full rooms",
+ * });
+ * ```
+ */
+export function registerRoomFilter(
+  name: string,
+  predicate: RoomFilterPredicate,
+  options: { label?: string; description?: string } = {},
+) {
+  registeredFilters.set(name, { name, predicate, ...options });
+}
+
+// Get a registered room filter by name
+export function getRoomFilter(name: string) {
+  return registeredFilters.get(name);
+}
+
+// Get the registered filters available as quick views
+export function getRoomFilterViews() {
+  return Array.from(registeredFilters.values()).map((filter) => ({
+    name: filter.name,
+    label: filter.label || filter.name,
+    description: filter.description,
+  }));
+}
+
+// Apply a predicate (a failing predicate excludes the room)
+export function applyRoomFilter(
+  rooms: any[],
+  name: string,
+  predicate: RoomFilterPredicate,
+) {
+  return rooms.filter((room) => {
+    try {
+      return predicate(room);
+    } catch (e) {
+      console.error(`@colyseus/monitor: room filter "${name}" failed`, e);
+      return false;
+    }
+  });
+}
+
+// Resolve `filter.customFilter` into a predicate
+export function getCustomFilter(
+  customFilter: FilterOptions["customFilter"],
+): RoomFilter | undefined {
+  if (typeof customFilter === "function") {
+    return {
+      name: customFilter.name || "customFilter",
+      predicate: customFilter,
+    };
+  }
+
+  if (typeof customFilter === "string") {
+    const filter = registeredFilters.get(customFilter);
+
+    if (!filter) {
+      console.warn(
+        `@colyseus/monitor: custom filter "${customFilter}" is not registered`,
+      );
+    }
+
+    return filter;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,113 @@
+//
+// Index page of the monitor frontend
+//
+import type express from "express";
+import fs from "fs";
+import path from "path";
+
+import type { MonitorOptions } from "./index.js";
+import { getRealtimeSettings } from "./realtime.js";
+
+// Used when the frontend build doesn't provide an index page
+const DEFAULT_INDEX_HTML = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="X-UA-Compatible" content="ie=edge" />
+    <link href="https://fonts.googleapis.com/icon?family=Material+Icons" rel="stylesheet" />
+    <title>Colyseus Monitor</title>
+    <link rel="stylesheet" href="styles.css" />
+  </head>
+  <body>
+    <div id="app"></div>
+    <script src="bundle.js"></script>
+  </body>
+</html>
+`;
+
+// Options exposed to the frontend (as `window.__COLYSEUS_MONITOR_CONFIG`)
+export function getFrontendConfig(opts: Partial<MonitorOptions>) {
+  // Handlers are room method names: keep them on the server
+  const toFrontendAction = ({ handler, ...action }) => action;
+
+  const realtime = getRealtimeSettings(opts);
+
+  return {
+    theme: opts.ui?.theme,
+    layout: opts.ui?.layout,
+    roomList: opts.ui?.roomList,
+    roomInspect: opts.ui?.roomInspect,
+    apiPrefix: opts.api?.prefix,
+    access: opts.access,
+    actions: {
+      room: opts.actions?.room?.map(toFrontendAction),
+      client: opts.actions?.client?.map(toFrontendAction),
+    },
+    realtime: {
+      enabled: realtime.enabled,
+      transport: realtime.transport,
+      updateInterval: realtime.updateInterval,
+    },
+  };
+}
+
+// Serialize a value to be embedded in a <script> tag
+function toScriptJSON(value: any) {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+// Collects plugins registered before the frontend bundle runs
+const PLUGIN_REGISTRY_SCRIPT = `window.__COLYSEUS_MONITOR_PLUGINS = window.__COLYSEUS_MONITOR_PLUGINS || {};
+window.registerMonitorPlugin = function (id, factory) { window.__COLYSEUS_MONITOR_PLUGINS[id] = factory; };`;
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/**
+ * Serve the frontend index page, with the monitor options injected.
+ */
+export function getIndexHandler(
+  opts: Partial<MonitorOptions>,
+  frontendDirectory: string,
+): express.RequestHandler {
+  const indexFile = path.join(frontendDirectory, "index.html");
+  const template = fs.existsSync(indexFile)
+    ? fs.readFileSync(indexFile, "utf8")
+    : DEFAULT_INDEX_HTML;
+
+  const script = [
+    `<script>window.__COLYSEUS_MONITOR_CONFIG = ${toScriptJSON(
+      getFrontendConfig(opts),
+    )};</script>`,
+    `<script>${PLUGIN_REGISTRY_SCRIPT}</script>`,
+    ...(opts.ui?.plugins || []).map(
+      (src) => `<script src="${escapeAttribute(src)}"></script>`,
+    ),
+  ].join("\n  ");
+
+  // Config and plugins must be defined before the frontend bundle runs
+  // (with a replacer function, so "$" patterns in the config aren't expanded)
+  const html = template.includes("</head>")
+    ? template.replace("</head>", () => `${script}\n  </head>`)
+    : script + template;
+
+  return (req: express.Request, res: express.Response) => {
+    const [pathname, search] = req.originalUrl.split("?");
+
+    // Relative asset URLs require a trailing slash (e.g. "/monitor/")
+    if (req.path === "/" && !pathname.endsWith("/")) {
+      return res.redirect(`${pathname}/${search ? `?${search}` : ""}`);
+    }
+
+    res.set("Cache-Control", "no-cache");
+    res.type("html").send(html);
+  };
+}
@@ -0,0 +1,239 @@
+//
+// Metrics history (sampled in the background)
+//
+import { matchMaker } from "@colyseus/core";
+import osUtils from "node-os-utils";
+
+import { disposeAlertManager } from "./alerts.js";
+import type { MonitorOptions } from "./index.js";
+
+// Default sampling interval
+const DEFAULT_SAMPLE_INTERVAL = 10 * 1000;
+
+// Default retention period
+const DEFAULT_RETENTION = 60 * 60 * 1000;
+
+// Maximum number of points returned when no `step` is requested
+const MAX_POINTS = 360;
+
+export interface MetricsSample {
+  timestamp: number;
+  cpu: number;
+  memory: number;
+  totalMemory: number;
+  connections: number;
+  rooms: number;
+  // Connected clients per room type
+  ccu: Record<string, number>;
+  // Rooms per room type
+  roomCounts: Record<string, number>;
+}
+
+export interface MetricsHistoryQuery {
+  from?: number;
+  to?: number;
+  // Bucket size (ms) to downsample into
+  step?: number;
+}
+
+// Average samples of a bucket
+function averageSamples(timestamp: number, samples: MetricsSample[]) {
+  const average = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const ccu: Record<string, number> = {};
+  const roomCounts: Record<string, number> = {};
+  const roomTypes = new Set(samples.flatMap((s) => Object.keys(s.ccu)));
+
+  roomTypes.forEach((roomType) => {
+    ccu[roomType] = average(samples.map((s) => s.ccu[roomType] || 0));
+    roomCounts[roomType] = average(
+      samples.map((s) => s.roomCounts?.[roomType] || 0),
+    );
+  });
+
+  return {
+    timestamp,
+    cpu: average(samples.map((s) => s.cpu)),
+    memory: average(samples.map((s) => s.memory)),
+    totalMemory: average(samples.map((s) => s.totalMemory)),
+    connections: average(samples.map((s) => s.connections)),
+    rooms: average(samples.map((s) => s.rooms)),
+    ccu,
+    roomCounts,
+  };
+}
+
+/**
+ * Samples server metrics at a fixed interval, keeping them for the
+ * retention period in a ring buffer.
+ */
+export class MetricsHistory {
+  protected samples: MetricsSample[] = [];
+  protected start = 0;
+  protected timer?: NodeJS.Timeout;
+  protected sampling = false;
+  protected listeners: Array<(sample: MetricsSample) => void> = [];
+
+  public readonly size: number;
+
+  constructor(
+    public readonly interval: number = DEFAULT_SAMPLE_INTERVAL,
+    public readonly retention: number = DEFAULT_RETENTION,
+  ) {
+    this.size = Math.ceil(retention / interval);
+  }
+
+  begin() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.sample(), this.interval);
+
+    // Don't keep the process alive just for sampling
+    this.timer.unref?.();
+  }
+
+  end() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Get notified of each new sample
+  onSample(listener: (sample: MetricsSample) => void) {
+    this.listeners.push(listener);
+  }
+
+  add(sample: MetricsSample) {
+    if (this.samples.length < this.size) {
+      this.samples.push(sample);
+    } else {
+      // overwrite the oldest sample
+      this.samples[this.start] = sample;
+      this.start = (this.start + 1) % this.size;
+    }
+  }
+
+  async sample() {
+    // Skip if the previous sample is still in progress
+    if (this.sampling) return;
+    this.sampling = true;
+
+    try {
+      const rooms: any[] = await matchMaker.query({});
+      const cpu = await osUtils.cpu.usage();
+      const memory = await osUtils.mem.used();
+
+      const ccu: Record<string, number> = {};
+      const roomCounts: Record<string, number> = {};
+      let connections = 0;
+
+      rooms.forEach((room) => {
+        ccu[room.name] = (ccu[room.name] || 0) + room.clients;
+        roomCounts[room.name] = (roomCounts[room.name] || 0) + 1;
+        connections += room.clients;
+      });
+
+      const sample: MetricsSample = {
+        timestamp: Date.now(),
+        cpu,
+        memory: memory.usedMemMb,
+        totalMemory: memory.totalMemMb,
+        connections,
+        rooms: rooms.length,
+        ccu,
+        roomCounts,
+      };
+
+      this.add(sample);
+      this.listeners.forEach((listener) => listener(sample));
+    } catch (e) {
+      console.error("@colyseus/monitor: metrics sampling failed", e);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  // Get samples in the given time range (inclusive), downsampled by `step`
+  query(query: MetricsHistoryQuery = {}) {
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - this.retention;
+    const step =
+      query.step ||
+      Math.max(this.interval, Math.ceil((to - from) / MAX_POINTS));
+
+    const samples = [
+      ...this.samples.slice(this.start),
+      ...this.samples.slice(0, this.start),
+    ].filter((sample) => sample.timestamp >= from && sample.timestamp <= to);
+
+    // Group samples into buckets of `step` milliseconds
+    const buckets = new Map<number, MetricsSample[]>();
+
+    samples.forEach((sample) => {
+      const bucket = from + Math.floor((sample.timestamp - from) / step) * step;
+
+      if (!buckets.has(bucket)) {
+        buckets.set(bucket, []);
+      }
+
+      buckets.get(bucket).push(sample);
+    });
+
+    return {
+      from,
+      to,
+      step,
+      interval: this.interval,
+      retention: this.retention,
+      samples: Array.from(buckets.entries()).map(([timestamp, samples]) =>
+        step <= this.interval && samples.length === 1
+          ? samples[0]
+          : averageSamples(timestamp, samples),
+      ),
+    };
+  }
+}
+
+// Sampler shared by every monitor router (metrics are process-wide)
+let sharedHistory: MetricsHistory | undefined;
+
+// Start sampling metrics history (enabled by default), or get the sampler
+// already running
+export function getMetricsHistory(opts: Partial<MonitorOptions>) {
+  const history = opts.metrics?.history;
+
+  if (history?.enabled === false) {
+    return undefined;
+  }
+
+  const interval = Math.max(history?.interval || DEFAULT_SAMPLE_INTERVAL, 1000);
+  const retention = Math.max(history?.retention || DEFAULT_RETENTION, interval);
+
+  if (sharedHistory) {
+    if (
+      sharedHistory.interval !== interval ||
+      sharedHistory.retention !== retention
+    ) {
+      console.warn(
+        "@colyseus/monitor: metrics history is already sampled with different settings",
+      );
+    }
+
+    return sharedHistory;
+  }
+
+  sharedHistory = new MetricsHistory(interval, retention);
+  sharedHistory.begin();
+
+  return sharedHistory;
+}
+
+/**
+ * Stop sampling metrics history, and evaluating alerts (e.g. on shutdown).
+ * Routers created afterwards start a new sampler.
+ */
+export function stopMetricsHistory() {
+  sharedHistory?.end();
+  sharedHistory = undefined;
+  disposeAlertManager();
+}
@@ -5,6 +5,22 @@ import path from "path";
 
 import { getAPI } from "./api.js";
 import "./ext/Room.js";
+import type { AlertRule, AlertWebhook } from "./alerts.js";
+import type { AuditSink } from "./audit.js";
+import { getIndexHandler } from "./frontend.js";
+import type { RoomFilterPredicate } from "./filters.js";
+import type { RoomMethod } from "./methods.js";
+
+export { getRoomLogger } from "./logs.js";
+export type { LogEntry, LogLevel, RoomLogger } from "./logs.js";
+export type { RoomMethod } from "./methods.js";
+export { registerRoomFilter } from "./filters.js";
+export type { RoomFilterPredicate } from "./filters.js";
+export type { Alert, AlertRule, AlertWebhook } from "./alerts.js";
+export { FileAuditSink } from "./audit.js";
+export { stopMetricsHistory } from "./history.js";
+export { startProcessReporter } from "./processes.js";
+export type { AuditEntry, AuditQuery, AuditSink } from "./audit.js";
 
 const frontendDirectory = path.resolve(__dirname, "..", "build", "static");
 
@@ -15,10 +31,17 @@ export type ColumnType =
   | "clients"
   | "maxClients"
   | "locked"
+  | "private"
   | "elapsedTime"
   | { metadata: string }
   | "processId"
-  | "publicAddress";
+  | "publicAddress"
+  // Per-second rates over the last 10 seconds
+  | "messageRate"
+  | "broadcastRate"
+  | "sendRate"
+  | "patchRate"
+  | "patchBytesRate";
 
 // Theme configuration
 export interface ThemeOptions {
@@ -49,23 +72,37 @@ export interface RoomListOptions {
 
 // Room inspection options
 export interface RoomInspectOptions {
-  tabs?: Array<"state" | "clients" | "metrics" | "logs" | "custom">;
+  // Visible tabs, in order ("custom" is replaced by `customTabs`)
+  tabs?: Array<"state" | "clients" | "metrics" | "logs" | "traffic" | "custom">;
   stateView?: "tree" | "json" | "table" | "custom";
   allowStateEdit?: boolean;
   customTabs?: Array<{
     id: string;
     label: string;
+    // id of a plugin registered with `window.registerMonitorPlugin()`
     component: string;
   }>;
 }
 
+// Argument of a custom action (passed to the handler positionally)
+export interface CustomActionArgument {
+  name: string;
+  type: "string" | "number" | "boolean" | "json";
+  description?: string;
+  // Allowed values
+  enum?: Array<string | number>;
+  default?: any;
+  required?: boolean;
+}
+
 // Custom action definition
 export interface CustomAction {
   id: string;
   name: string;
   description?: string;
-  icon?: string;
+  icon?: string; // Material icon name
   confirmRequired?: boolean;
+  args?: CustomActionArgument[];
   handler: string; // Function name to be called
 }
 
@@ -75,13 +112,49 @@ export interface AccessControlOptions {
   allowStateModification?: boolean;
   allowClientMessages?: boolean;
   allowRoomDisposal?: boolean;
+  // Lock/unlock rooms, disconnect clients and run custom actions
+  allowRoomActions?: boolean;
+  // Browse the audit trail
+  allowAuditLog?: boolean;
+}
+
+// Monitor user roles
+export type MonitorRole = "viewer" | "operator" | "admin";
+
+// Authenticated monitor user
+export interface Principal {
+  id: string;
+  role: MonitorRole;
+}
+
+// How to authenticate monitor requests
+export type Authenticator =
+  | {
+      type: "basic";
+      users: Record<string, { password: string; role: MonitorRole }>;
+      realm?: string;
+    }
+  | {
+      type: "bearer";
+      tokens: Record<string, Principal>;
+    }
+  | ((
+      req: express.Request,
+    ) => Principal | undefined | Promise<Principal | undefined>);
+
+// Authentication options
+export interface AuthOptions {
+  authenticator: Authenticator;
+  // Permissions granted to each role
+  roles?: Partial<Record<MonitorRole, AccessControlOptions>>;
 }
 
 // Filtering options
 export interface FilterOptions {
   includeTypes?: string[];
   excludeTypes?: string[];
-  customFilter?: string; // Function name to be called
+  // Name of a registered filter (see `registerRoomFilter()`), or a predicate
+  customFilter?: string | RoomFilterPredicate;
 }
 
 export interface MonitorOptions {
@@ -94,6 +167,8 @@ export interface MonitorOptions {
     layout?: LayoutOptions;
     roomList?: RoomListOptions;
     roomInspect?: RoomInspectOptions;
+    // Scripts registering frontend plugins (loaded before the frontend bundle)
+    plugins?: string[];
   };
 
   // Custom actions
@@ -105,12 +180,58 @@ export interface MonitorOptions {
   // Access control
   access?: AccessControlOptions;
 
+  // Authentication
+  auth?: AuthOptions;
+
+  // Audit trail of mutating operations
+  audit?: {
+    enabled?: boolean;
+    // JSON Lines file used by the default sink ("monitor-audit.jsonl")
+    file?: string;
+    // Custom destination
+    sink?: AuditSink;
+  };
+
   // Room filtering
   filter?: FilterOptions;
 
+  // Client details (room inspector)
+  clients?: {
+    // Hide secrets from `client.auth` (default: redact values of keys
+    // matching /pass|secret|token|key|credential/i)
+    redactAuth?: (auth: any, sessionId: string) => any;
+  };
+
+  // Threshold alerts (evaluated on each metrics history sample)
+  alerts?: {
+    rules?: AlertRule[];
+    // URLs notified (with a JSON POST) when alerts fire or resolve
+    webhooks?: Array<string | AlertWebhook>;
+  };
+
+  // Server metrics
+  metrics?: {
+    // Background sampling of metrics history
+    history?: {
+      enabled?: boolean;
+      // Sampling interval in milliseconds (default: 10s)
+      interval?: number;
+      // How long samples are kept in milliseconds (default: 1 hour)
+      retention?: number;
+    };
+    // `{prefix}/metrics/prometheus` endpoint
+    prometheus?: {
+      enabled?: boolean;
+      // Export per-room series labelled by `roomId` (high cardinality)
+      roomLabels?: boolean;
+    };
+  };
+
   // API configuration
   api?: {
     prefix?: string;
+    // Additional room methods callable through `{prefix}/room/call`
+    allowedMethods?: Array<string | RoomMethod>;
   };
 
   // Real-time updates
@@ -152,8 +273,11 @@ export function createMonitorRouter(
 export function monitor(opts: Partial<MonitorOptions> = {}): express.Router {
   const router = express.Router();
 
+  // Serve the index page, with the frontend configuration injected
+  router.get(["/", "/index.html"], getIndexHandler(opts, frontendDirectory));
+
   // Serve static frontend assets
-  router.use(express.static(frontendDirectory));
+  router.use(express.static(frontendDirectory, { index: false }));
 
   // Mount API with given options
   const apiPrefix = opts.api?.prefix || "/api";
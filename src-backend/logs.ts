@@ -0,0 +1,143 @@
+//
+// Per-room log capture
+//
+import { logger, Room } from "@colyseus/core";
+
+// Maximum number of entries kept per room
+const LOG_BUFFER_SIZE = 500;
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+  data?: any;
+}
+
+export interface LogFilter {
+  // Minimum level to include
+  level?: LogLevel;
+  // Include entries logged at or after this timestamp
+  since?: number;
+  // Maximum number of (most recent) entries to return
+  limit?: number;
+}
+
+export interface RoomLogger {
+  debug: (message: string, data?: any) => void;
+  info: (message: string, data?: any) => void;
+  warn: (message: string, data?: any) => void;
+  error: (message: string, data?: any) => void;
+}
+
+/**
+ * Bounded ring buffer of log entries
+ */
+export class LogBuffer {
+  protected entries: LogEntry[] = [];
+  protected start = 0;
+  protected nextId = 1;
+
+  constructor(public readonly size: number = LOG_BUFFER_SIZE) {}
+
+  add(level: LogLevel, message: string, data?: any) {
+    const entry: LogEntry = {
+      id: this.nextId++,
+      timestamp: Date.now(),
+      level,
+      message,
+    };
+
+    if (data !== undefined) {
+      entry.data = toSerializable(data);
+    }
+
+    if (this.entries.length < this.size) {
+      this.entries.push(entry);
+    } else {
+      // overwrite the oldest entry
+      this.entries[this.start] = entry;
+      this.start = (this.start + 1) % this.size;
+    }
+
+    return entry;
+  }
+
+  query(filter: LogFilter = {}) {
+    const minLevel = LOG_LEVELS.indexOf(filter.level);
+
+    const entries = [
+      ...this.entries.slice(this.start),
+      ...this.entries.slice(0, this.start),
+    ].filter(
+      (entry) =>
+        LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+        (filter.since === undefined || entry.timestamp >= filter.since),
+    );
+
+    return filter.limit > 0 ? entries.slice(-filter.limit) : entries;
+  }
+}
+
+// Make sure entries can be transferred over IPC and JSON
+export function toSerializable(data: any) {
+  if (data === undefined) {
+    return undefined;
+  }
+
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message, stack: data.stack };
+  }
+
+  try {
+    return JSON.parse(JSON.stringify(data));
+  } catch (e) {
+    return String(data);
+  }
+}
+
+// Get (or create) the log buffer of a room
+export function getRoomLogBuffer(room: Room): LogBuffer {
+  const anyRoom = room as any;
+
+  if (!anyRoom._monitorLogs) {
+    Object.defineProperty(anyRoom, "_monitorLogs", {
+      value: new LogBuffer(),
+      enumerable: false,
+    });
+  }
+
+  return anyRoom._monitorLogs;
+}
+
+/**
+ * Get a logger writing to the room's monitor log (shown in the "Logs" tab),
+ * as well as to the Colyseus logger.
+ *
+ * @example
+ * ```
+ * const log = getRoomLogger(this);
+ * log.info("round started", { round: 1 });
+ * ```
+ */
+export function getRoomLogger(room: Room): RoomLogger {
+  const buffer = getRoomLogBuffer(room);
+
+  const write = (level: LogLevel) => (message: string, data?: any) => {
+    buffer.add(level, message, data);
+
+    const args = data !== undefined ? [message, data] : [message];
+    logger[level](`[${room.roomName} ${room.roomId}]`, ...args);
+  };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
@@ -0,0 +1,233 @@
+//
+// Room methods callable through `{prefix}/room/call`
+//
+import type {
+  AccessControlOptions,
+  CustomAction,
+  MonitorOptions,
+} from "./index.js";
+
+export interface RoomMethod {
+  name: string;
+  // Whether the method changes the room (only callable with POST). Default: true
+  mutating?: boolean;
+  // Access control permission required to call the method
+  // Default: `allowRoomActions` for mutating methods
+  permission?: keyof AccessControlOptions;
+}
+
+// Operations used by the monitor itself
+const BUILT_IN_METHODS: RoomMethod[] = [
+  { name: "disconnect", permission: "allowRoomDisposal" },
+  { name: "broadcast", permission: "allowClientMessages" },
+  { name: "lock" },
+  { name: "unlock" },
+  { name: "_setLocked" },
+  { name: "_setPrivate" },
+  { name: "_setMetadata" },
+  { name: "_forceClientDisconnect" },
+  { name: "_sendMessageToClient", permission: "allowClientMessages" },
+  { name: "_updateRoomState", permission: "allowStateModification" },
+  { name: "_getRoomLogs", mutating: false, permission: "allowStateInspection" },
+  { name: "_exportState", mutating: false, permission: "allowStateInspection" },
+  { name: "_getTraffic", mutating: false, permission: "allowStateInspection" },
+  { name: "_startTrafficCapture", permission: "allowStateInspection" },
+  { name: "_stopTrafficCapture", permission: "allowStateInspection" },
+  { name: "_clearTraffic", permission: "allowStateInspection" },
+  {
+    name: "_getRecordingStatus",
+    mutating: false,
+    permission: "allowStateInspection",
+  },
+  // recordings hold the auth data and messages of clients
+  { name: "_startRecording", permission: "allowStateModification" },
+  { name: "_stopRecording", permission: "allowStateModification" },
+  {
+    name: "_exportRecording",
+    mutating: false,
+    permission: "allowStateModification",
+  },
+  {
+    name: "_getStateSnapshots",
+    mutating: false,
+    permission: "allowStateInspection",
+  },
+  { name: "_takeStateSnapshot", permission: "allowStateInspection" },
+  { name: "_deleteStateSnapshot", permission: "allowStateInspection" },
+  {
+    name: "_diffStateSnapshots",
+    mutating: false,
+    permission: "allowStateInspection",
+  },
+];
+
+const PERMISSION_ERRORS: Record<keyof AccessControlOptions, string> = {
+  allowStateInspection: "State inspection is not allowed",
+  allowStateModification: "State modification is not allowed",
+  allowClientMessages: "Sending client messages is not allowed",
+  allowRoomDisposal: "Room disposal is not allowed",
+  allowRoomActions: "Room actions are not allowed",
+  allowAuditLog: "Audit log access is not allowed",
+};
+
+/**
+ * Error with the HTTP status to respond with
+ */
+export class RoomCallError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+// A room call, resolved from the requested method name
+export interface ResolvedRoomCall {
+  method: string;
+  args: any[];
+  mutating: boolean;
+}
+
+// Check whether a permission is granted
+// (state modification must be explicitly enabled, anything else is allowed by default)
+export function hasPermission(
+  access: AccessControlOptions | undefined,
+  permission: keyof AccessControlOptions,
+) {
+  return permission === "allowStateModification"
+    ? access?.allowStateModification === true
+    : access?.[permission] !== false;
+}
+
+/**
+ * Check the arguments of a custom action against its declared ones (filling
+ * in defaults).
+ *
+ * @throws {RoomCallError}
+ */
+export function validateActionArgs(action: CustomAction, args: any[]) {
+  if (!action.args) {
+    return args;
+  }
+
+  return action.args.map((arg, i) => {
+    const value = args[i] ?? arg.default;
+
+    if (value === undefined || value === null) {
+      if (arg.required) {
+        throw new RoomCallError(`Missing argument ${arg.name}`, 400);
+      }
+      return value;
+    }
+
+    if (arg.type !== "json" && typeof value !== arg.type) {
+      throw new RoomCallError(
+        `Invalid argument ${arg.name}: expected a ${arg.type}`,
+        400,
+      );
+    }
+
+    if (arg.enum && !arg.enum.includes(value)) {
+      throw new RoomCallError(
+        `Invalid argument ${arg.name}: expected one of ${arg.enum.join(", ")}`,
+        400,
+      );
+    }
+
+    return value;
+  });
+}
+
+// Get the list of callable room methods (built-in and configured ones)
+export function getAllowedMethods(opts: Partial<MonitorOptions>) {
+  const methods = new Map<string, RoomMethod>();
+
+  BUILT_IN_METHODS.forEach((method) => methods.set(method.name, method));
+
+  opts.api?.allowedMethods?.forEach((method) => {
+    const definition = typeof method === "string" ? { name: method } : method;
+    methods.set(definition.name, definition);
+  });
+
+  return methods;
+}
+
+/**
+ * Resolve the room method to call, checking it against the allowlist and
+ * access control options.
+ *
+ * Custom actions are requested as `customAction:<id>` and
+ * `customClientAction:<id>:<sessionId>`.
+ *
+ * @throws {RoomCallError}
+ */
+export function resolveRoomCall(
+  opts: Partial<MonitorOptions>,
+  access: AccessControlOptions,
+  method: string,
+  args: any[],
+): ResolvedRoomCall {
+  const checkPermission = (permission?: keyof AccessControlOptions) => {
+    if (permission && !hasPermission(access, permission)) {
+      throw new RoomCallError(PERMISSION_ERRORS[permission], 403);
+    }
+  };
+
+  if (method.startsWith("customAction:")) {
+    const actionId = method.replace("customAction:", "");
+    const action = opts.actions?.room?.find((a) => a.id === actionId);
+
+    if (!action || !action.handler) {
+      throw new RoomCallError(`Custom action ${actionId} not found`, 404);
+    }
+
+    checkPermission("allowRoomActions");
+
+    return {
+      method: action.handler,
+      args: validateActionArgs(action, args),
+      mutating: true,
+    };
+  }
+
+  if (method.startsWith("customClientAction:")) {
+    const [actionId, clientId] = method
+      .replace("customClientAction:", "")
+      .split(":");
+    const action = opts.actions?.client?.find((a) => a.id === actionId);
+
+    if (!action || !action.handler) {
+      throw new RoomCallError(
+        `Custom client action ${actionId} not found`,
+        404,
+      );
+    }
+
+    if (!clientId) {
+      throw new RoomCallError("Missing client id", 400);
+    }
+
+    checkPermission("allowRoomActions");
+
+    return {
+      method: action.handler,
+      args: [clientId, ...validateActionArgs(action, args)],
+      mutating: true,
+    };
+  }
+
+  const definition = getAllowedMethods(opts).get(method);
+
+  if (!definition) {
+    throw new RoomCallError(`Method ${method} is not allowed`, 403);
+  }
+
+  const mutating = definition.mutating !== false;
+
+  checkPermission(
+    definition.permission || (mutating ? "allowRoomActions" : undefined),
+  );
+
+  return { method, args, mutating };
+}
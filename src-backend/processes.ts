@@ -0,0 +1,169 @@
+//
+// Processes running the monitor extension
+//
+// Each process reports its own usage through presence, so that the monitor
+// can list every process of a multi-process deployment.
+//
+import { matchMaker } from "@colyseus/core";
+import os from "os";
+
+// Presence hash holding the latest report of each process
+const PROCESSES_KEY = "colyseus:monitor:processes";
+
+// How often each process reports its usage
+const REPORT_INTERVAL = 5000;
+
+// Reports older than this are flagged as stale...
+const STALE_AFTER = REPORT_INTERVAL * 3;
+
+// ...and discarded after this (the process is assumed to be gone)
+const EXPIRE_AFTER = 60 * 1000;
+
+export interface ProcessReport {
+  processId: string;
+  publicAddress?: string;
+  hostname: string;
+  pid: number;
+  // Process CPU usage (percentage of one core) since the previous report
+  cpu: number;
+  memory: {
+    rss: number;
+    heapUsed: number;
+    heapTotal: number;
+  };
+  uptime: number;
+  timestamp: number;
+}
+
+let reportTimer: NodeJS.Timeout | undefined;
+let previousCpuUsage = process.cpuUsage();
+let previousCpuTime = Date.now();
+
+function getCpuPercentage() {
+  const now = Date.now();
+  const usage = process.cpuUsage(previousCpuUsage);
+  const elapsed = (now - previousCpuTime) * 1000; // microseconds
+
+  previousCpuUsage = process.cpuUsage();
+  previousCpuTime = now;
+
+  return elapsed > 0
+    ? Math.round(((usage.user + usage.system) / elapsed) * 1000) / 10
+    : 0;
+}
+
+// Publish the usage of the current process
+export async function reportProcess() {
+  // Wait for the matchmaker to be set up
+  if (!matchMaker.processId || !matchMaker.presence) {
+    return;
+  }
+
+  const memory = process.memoryUsage();
+  const report: ProcessReport = {
+    processId: matchMaker.processId,
+    publicAddress: matchMaker.publicAddress,
+    hostname: os.hostname(),
+    pid: process.pid,
+    cpu: getCpuPercentage(),
+    memory: {
+      rss: memory.rss,
+      heapUsed: memory.heapUsed,
+      heapTotal: memory.heapTotal,
+    },
+    uptime: Math.round(process.uptime()),
+    timestamp: Date.now(),
+  };
+
+  try {
+    await matchMaker.presence.hset(
+      PROCESSES_KEY,
+      report.processId,
+      JSON.stringify(report),
+    );
+  } catch (e) {
+    console.error("@colyseus/monitor: process report failed", e);
+  }
+}
+
+/**
+ * Start reporting the usage of the current process. To be called by every
+ * process (including those that don't mount the monitor); later calls are
+ * ignored.
+ */
+export function startProcessReporter() {
+  if (reportTimer) return;
+
+  reportTimer = setInterval(reportProcess, REPORT_INTERVAL);
+
+  // Report as soon as the matchmaker is ready
+  matchMaker.onReady?.then(() => reportProcess());
+
+  // Don't keep the process alive just for reporting
+  reportTimer.unref?.();
+}
+
+// Get the latest report of every process
+async function getProcessReports() {
+  const reports = new Map<string, ProcessReport>();
+  const entries = (await matchMaker.presence.hgetall(PROCESSES_KEY)) || {};
+
+  for (const [processId, value] of Object.entries(entries)) {
+    let report: ProcessReport;
+
+    try {
+      report = JSON.parse(value);
+    } catch (e) {
+      continue;
+    }
+
+    if (Date.now() - report.timestamp > EXPIRE_AFTER) {
+      await matchMaker.presence.hdel(PROCESSES_KEY, processId);
+      continue;
+    }
+
+    reports.set(processId, report);
+  }
+
+  return reports;
+}
+
+/**
+ * List processes with their rooms (grouped by `processId`) and usage.
+ *
+ * Processes not running the monitor extension are listed by their rooms,
+ * without usage.
+ */
+export async function getProcesses() {
+  const rooms: any[] = await matchMaker.query({});
+  const reports = await getProcessReports();
+
+  const processes = new Map<string, any>();
+
+  const getProcess = (processId: string) => {
+    if (!processes.has(processId)) {
+      const report = reports.get(processId);
+
+      processes.set(processId, {
+        processId,
+        rooms: 0,
+        ccu: 0,
+        ...report,
+        stale: report ? Date.now() - report.timestamp > STALE_AFTER : true,
+        current: processId === matchMaker.processId,
+      });
+    }
+
+    return processes.get(processId);
+  };
+
+  reports.forEach((report) => getProcess(report.processId));
+
+  rooms.forEach((room) => {
+    const entry = getProcess(room.processId);
+    entry.rooms++;
+    entry.ccu += room.clients;
+  });
+
+  return Array.from(processes.values());
+}
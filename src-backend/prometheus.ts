@@ -0,0 +1,249 @@
+//
+// Prometheus text exposition format
+// (https://prometheus.io/docs/instrumenting/exposition_formats/)
+//
+import { matchMaker } from "@colyseus/core";
+
+import type { MonitorOptions } from "./index.js";
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+// Buckets of the state size histogram (bytes)
+const STATE_SIZE_BUCKETS = [256, 1024, 4096, 16384, 65536, 262144, 1048576];
+
+type Labels = Record<string, string | number | boolean>;
+
+// Join/leave counts per room type (since this process started)
+const roomEventCounters = {
+  join: new Map<string, number>(),
+  leave: new Map<string, number>(),
+};
+
+// Count a client joining or leaving a room of the given type
+export function countRoomEvent(name: string, event: "join" | "leave") {
+  const counter = roomEventCounters[event];
+  counter.set(name, (counter.get(name) || 0) + 1);
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels = {}) {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(String(value))}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Accumulates metric families, and renders them in the text format.
+ */
+class MetricsWriter {
+  protected lines: string[] = [];
+
+  metric(
+    name: string,
+    type: "gauge" | "counter" | "histogram",
+    help: string,
+    samples: Array<[Labels, number]>,
+  ) {
+    this.lines.push(`# HELP ${name} ${help}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+    samples.forEach(([labels, value]) => {
+      this.lines.push(`${name}${formatLabels(labels)} ${value}`);
+    });
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    buckets: number[],
+    groups: Map<string, number[]>,
+    labelName: string,
+  ) {
+    const samples: Array<[Labels, number]> = [];
+
+    groups.forEach((values, group) => {
+      buckets.forEach((le) => {
+        samples.push([
+          { [labelName]: group, le },
+          values.filter((value) => value <= le).length,
+        ]);
+      });
+      samples.push([{ [labelName]: group, le: "+Inf" }, values.length]);
+    });
+
+    this.metric(name, "histogram", help, []);
+
+    samples.forEach(([labels, value]) => {
+      this.lines.push(`${name}_bucket${formatLabels(labels)} ${value}`);
+    });
+
+    groups.forEach((values, group) => {
+      const labels = formatLabels({ [labelName]: group });
+      const sum = values.reduce((total, value) => total + value, 0);
+      this.lines.push(`${name}_sum${labels} ${sum}`);
+      this.lines.push(`${name}_count${labels} ${values.length}`);
+    });
+  }
+
+  toString() {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+// Render server and room metrics in the Prometheus text format
+export async function getPrometheusMetrics(opts: Partial<MonitorOptions>) {
+  const roomLabels = opts.metrics?.prometheus?.roomLabels !== false;
+  const writer = new MetricsWriter();
+
+  //
+  // Process
+  //
+  const cpuUsage = process.cpuUsage();
+  const memoryUsage = process.memoryUsage();
+
+  writer.metric(
+    "process_cpu_user_seconds_total",
+    "counter",
+    "User CPU time spent in seconds.",
+    [[{}, cpuUsage.user / 1e6]],
+  );
+  writer.metric(
+    "process_cpu_system_seconds_total",
+    "counter",
+    "System CPU time spent in seconds.",
+    [[{}, cpuUsage.system / 1e6]],
+  );
+  writer.metric(
+    "process_resident_memory_bytes",
+    "gauge",
+    "Resident memory size in bytes.",
+    [[{}, memoryUsage.rss]],
+  );
+  writer.metric(
+    "nodejs_heap_size_total_bytes",
+    "gauge",
+    "Process heap size from Node.js in bytes.",
+    [[{}, memoryUsage.heapTotal]],
+  );
+  writer.metric(
+    "nodejs_heap_size_used_bytes",
+    "gauge",
+    "Process heap size used from Node.js in bytes.",
+    [[{}, memoryUsage.heapUsed]],
+  );
+
+  //
+  // Rooms
+  //
+  const rooms: any[] = await matchMaker.query({});
+
+  // State sizes are only known by the rooms themselves
+  const roomListData = await Promise.all(
+    rooms.map((room) =>
+      matchMaker
+        .remoteRoomCall(room.roomId, "getRoomListData")
+        .catch(() => undefined),
+    ),
+  );
+
+  const roomCounts = new Map<
+    string,
+    { name: string; locked: boolean; count: number }
+  >();
+  const stateSizes = new Map<string, number[]>();
+  let ccu = 0;
+
+  rooms.forEach((room, index) => {
+    const locked = room.locked || false;
+    const key = `${room.name}:${locked}`;
+
+    if (!roomCounts.has(key)) {
+      roomCounts.set(key, { name: room.name, locked, count: 0 });
+    }
+    roomCounts.get(key).count++;
+
+    ccu += room.clients;
+
+    const stateSize = roomListData[index]?.stateSize;
+    if (stateSize !== undefined) {
+      if (!stateSizes.has(room.name)) {
+        stateSizes.set(room.name, []);
+      }
+      stateSizes.get(room.name).push(stateSize);
+    }
+  });
+
+  writer.metric("colyseus_ccu", "gauge", "Connected clients.", [[{}, ccu]]);
+
+  writer.metric(
+    "colyseus_rooms",
+    "gauge",
+    "Rooms by type and locked state.",
+    Array.from(roomCounts.values()).map(({ name, locked, count }) => [
+      { name, locked },
+      count,
+    ]),
+  );
+
+  writer.histogram(
+    "colyseus_room_state_size_bytes",
+    "Size of the full room state in bytes.",
+    STATE_SIZE_BUCKETS,
+    stateSizes,
+    "name",
+  );
+
+  writer.metric(
+    "colyseus_room_joins_total",
+    "counter",
+    "Clients joined, by room type.",
+    Array.from(roomEventCounters.join.entries()).map(([name, count]) => [
+      { name },
+      count,
+    ]),
+  );
+
+  writer.metric(
+    "colyseus_room_leaves_total",
+    "counter",
+    "Clients left, by room type.",
+    Array.from(roomEventCounters.leave.entries()).map(([name, count]) => [
+      { name },
+      count,
+    ]),
+  );
+
+  // Per-room series (one per `roomId`)
+  if (roomLabels) {
+    writer.metric(
+      "colyseus_room_clients",
+      "gauge",
+      "Connected clients, by room.",
+      rooms.map((room) => [
+        { roomId: room.roomId, name: room.name },
+        room.clients,
+      ]),
+    );
+
+    writer.metric(
+      "colyseus_room_state_bytes",
+      "gauge",
+      "Size of the full room state in bytes, by room.",
+      rooms
+        .map((room, index): [Labels, number] => [
+          { roomId: room.roomId, name: room.name },
+          roomListData[index]?.stateSize,
+        ])
+        .filter(([, stateSize]) => stateSize !== undefined),
+    );
+  }
+
+  return writer.toString();
+}
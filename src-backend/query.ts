@@ -0,0 +1,319 @@
+//
+// Room list query language
+//
+// Queries are JSON objects mapping field paths to conditions, e.g.:
+//
+//   { "name": "battle", "clients": { "$gt": 2 }, "metadata.mode": { "$in": ["ranked", "casual"] } }
+//   { "$or": [{ "locked": true }, { "metadata.region": { "$regex": "^eu" } }] }
+//
+
+// Maximum length of `$regex` patterns
+const MAX_REGEX_LENGTH = 256;
+
+// Maximum number of repeated elements ("*", "+", "{n,m}") of `$regex` patterns
+const MAX_REGEX_QUANTIFIERS = 2;
+
+// Longer values never match `$regex` patterns (bounds the matching time)
+const MAX_REGEX_SUBJECT_LENGTH = 256;
+
+export type RoomMatcher = (room: any) => boolean;
+
+/**
+ * Invalid query (responded with 400)
+ */
+export class QueryError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(`Invalid filter: ${message}`);
+  }
+}
+
+function isPlainObject(value: any) {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function isOperatorObject(value: any) {
+  const keys = isPlainObject(value) && Object.keys(value);
+  return keys && keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+function isComparable(value: any) {
+  return typeof value === "number" || typeof value === "string";
+}
+
+function isEqual(a: any, b: any) {
+  return (
+    a === b ||
+    (typeof a === "object" && JSON.stringify(a) === JSON.stringify(b))
+  );
+}
+
+// Get the value at a dotted path. Paths not found on the room are looked up
+// in its metadata (e.g. "mode" => "metadata.mode").
+function getValue(room: any, path: string) {
+  const get = (obj: any) =>
+    path.split(".").reduce((value, key) => value?.[key], obj);
+
+  const value = get(room);
+  return value === undefined && room.metadata ? get(room.metadata) : value;
+}
+
+interface RegexGroup {
+  // whether the group contains a repeating quantifier
+  quantified: boolean;
+  // whether the group contains an alternation ("|")
+  alternation: boolean;
+}
+
+// Whether a regular expression can backtrack catastrophically (or
+// polynomially, on long values):
+// - nested quantifiers, e.g. "(a+)+", "(\\w*)*"
+// - repeated alternations, whose branches may overlap, e.g. "(a|aa)+"
+// - more than MAX_REGEX_QUANTIFIERS repeated elements, e.g. ".*.*.*x"
+// - backreferences
+function isUnsafeRegex(pattern: string) {
+  const groups: RegexGroup[] = [];
+  // previous atom, if it's a group
+  let previous: RegexGroup | undefined;
+  let quantifiers = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1])) return true;
+      i++;
+      previous = undefined;
+    } else if (char === "[") {
+      // skip the character class
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+      previous = undefined;
+    } else if (char === "(") {
+      groups.push({ quantified: false, alternation: false });
+      if (pattern[i + 1] === "?") {
+        const named = pattern.slice(i).match(/^\(\?<[^=!][^>]*>/);
+        i += named ? named[0].length - 1 : pattern[i + 2] === "<" ? 3 : 2;
+      }
+      previous = undefined;
+    } else if (char === ")") {
+      previous = groups.pop();
+      const parent = groups[groups.length - 1];
+      if (previous && parent) {
+        parent.quantified ||= previous.quantified;
+        parent.alternation ||= previous.alternation;
+      }
+    } else if (char === "|") {
+      if (group) group.alternation = true;
+      previous = undefined;
+    } else if ("*+?{".includes(char)) {
+      let repeats = char !== "?";
+
+      if (char === "{") {
+        const range = pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+        if (!range) {
+          previous = undefined;
+          continue;
+        }
+        // fixed counts ("{3}") are unambiguous
+        repeats = !!range[2] && (range[3] === "" || Number(range[3]) > 1);
+        i += range[0].length - 1;
+      }
+      // lazy quantifier
+      if (pattern[i + 1] === "?") i++;
+
+      if (repeats) {
+        if (previous?.quantified || previous?.alternation) return true;
+        if (++quantifiers > MAX_REGEX_QUANTIFIERS) return true;
+        if (group) group.quantified = true;
+      }
+      previous = undefined;
+    } else {
+      previous = undefined;
+    }
+  }
+
+  return false;
+}
+
+function compileOperator(
+  path: string,
+  operator: string,
+  operand: any,
+  options?: string,
+): (value: any) => boolean {
+  const invalid = (expected: string) =>
+    new QueryError(`"${operator}" of "${path}" expects ${expected}`);
+
+  switch (operator) {
+    case "$eq":
+      return (value) => isEqual(value, operand);
+
+    case "$ne":
+      return (value) => !isEqual(value, operand);
+
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte": {
+      if (!isComparable(operand)) throw invalid("a number or string");
+
+      return (value) => {
+        if (typeof value !== typeof operand) return false;
+        if (operator === "$gt") return value > operand;
+        if (operator === "$gte") return value >= operand;
+        if (operator === "$lt") return value < operand;
+        return value <= operand;
+      };
+    }
+
+    case "$in":
+    case "$nin": {
+      if (!Array.isArray(operand)) throw invalid("an array");
+
+      const included = (value: any) =>
+        operand.some((candidate) => isEqual(value, candidate));
+
+      return operator === "$in"
+        ? (value) => included(value)
+        : (value) => !included(value);
+    }
+
+    case "$regex": {
+      if (typeof operand !== "string") throw invalid("a string");
+      if (operand.length > MAX_REGEX_LENGTH) {
+        throw invalid(`at most ${MAX_REGEX_LENGTH} characters`);
+      }
+
+      let regex: RegExp;
+
+      try {
+        regex = new RegExp(operand, options);
+      } catch (e) {
+        throw invalid(`a valid regular expression (${e.message})`);
+      }
+
+      if (isUnsafeRegex(operand)) {
+        throw invalid(
+          `a regular expression without nested quantifiers, repeated alternations, backreferences or more than ${MAX_REGEX_QUANTIFIERS} repeated elements`,
+        );
+      }
+
+      return (value) =>
+        typeof value === "string" &&
+        value.length <= MAX_REGEX_SUBJECT_LENGTH &&
+        regex.test(value);
+    }
+
+    case "$exists": {
+      if (typeof operand !== "boolean") throw invalid("a boolean");
+      return (value) => (value !== undefined && value !== null) === operand;
+    }
+
+    default:
+      throw new QueryError(`unknown operator "${operator}" for "${path}"`);
+  }
+}
+
+function compileCondition(path: string, condition: any): RoomMatcher {
+  if (path === "") {
+    throw new QueryError("empty field path");
+  }
+
+  // Literal: match by equality
+  if (!isOperatorObject(condition)) {
+    return (room) => isEqual(getValue(room, path), condition);
+  }
+
+  const { $options, ...operators } = condition;
+
+  if ($options !== undefined) {
+    if (operators.$regex === undefined) {
+      throw new QueryError(`"$options" of "${path}" requires "$regex"`);
+    }
+
+    if (typeof $options !== "string" || !/^[imsu]*$/.test($options)) {
+      throw new QueryError(
+        `"$options" of "${path}" expects a combination of "i", "m", "s" and "u"`,
+      );
+    }
+  }
+
+  const tests = Object.entries(operators).map(([operator, operand]) =>
+    compileOperator(path, operator, operand, $options),
+  );
+
+  return (room) => {
+    const value = getValue(room, path);
+    return tests.every((test) => test(value));
+  };
+}
+
+function compileQueryList(operator: string, queries: any): RoomMatcher[] {
+  if (!Array.isArray(queries) || queries.length === 0) {
+    throw new QueryError(`"${operator}" expects a non-empty array of queries`);
+  }
+
+  return queries.map((query) => compileQuery(query));
+}
+
+// Compile a query object into a room matcher
+export function compileQuery(query: any): RoomMatcher {
+  if (!isPlainObject(query)) {
+    throw new QueryError("expected an object");
+  }
+
+  const matchers = Object.entries(query).map(([key, condition]) => {
+    switch (key) {
+      case "$and": {
+        const matchers = compileQueryList(key, condition);
+        return (room: any) => matchers.every((match) => match(room));
+      }
+
+      case "$or": {
+        const matchers = compileQueryList(key, condition);
+        return (room: any) => matchers.some((match) => match(room));
+      }
+
+      case "$nor": {
+        const matchers = compileQueryList(key, condition);
+        return (room: any) => !matchers.some((match) => match(room));
+      }
+
+      case "$not": {
+        const match = compileQuery(condition);
+        return (room: any) => !match(room);
+      }
+
+      default:
+        if (key.startsWith("$")) {
+          throw new QueryError(`unknown operator "${key}"`);
+        }
+
+        return compileCondition(key, condition);
+    }
+  });
+
+  return (room) => matchers.every((match) => match(room));
+}
+
+// Parse and compile the `filter` query parameter
+export function parseRoomQuery(filter: string): RoomMatcher {
+  let query: any;
+
+  try {
+    query = JSON.parse(filter);
+  } catch (e) {
+    throw new QueryError("malformed JSON");
+  }
+
+  return compileQuery(query);
+}
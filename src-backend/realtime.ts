@@ -0,0 +1,445 @@
+//
+// Realtime push transport for the monitor dashboard
+//
+import { matchMaker } from "@colyseus/core";
+
+import crypto from "crypto";
+import type express from "express";
+import type http from "http";
+import type { Duplex } from "stream";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+
+import type { RoomListParams, SystemUsage } from "./api.js";
+import type { AccessControlOptions, MonitorOptions } from "./index.js";
+import { hasPermission } from "./methods.js";
+
+// Presence channel used by rooms (on any process) to announce lifecycle events
+export const MONITOR_EVENTS_CHANNEL = "$monitor:events";
+
+// How long a realtime connection ticket remains valid
+const TICKET_EXPIRATION_TIME = 30 * 1000;
+
+// Delay used to coalesce bursts of room events into a single push
+const EVENT_FLUSH_DELAY = 100;
+
+export type RealtimeTopic =
+  "roomListUpdates" | "roomStateUpdates" | "clientUpdates" | "serverMetrics";
+
+const REALTIME_TOPICS: RealtimeTopic[] = [
+  "roomListUpdates",
+  "roomStateUpdates",
+  "clientUpdates",
+  "serverMetrics",
+];
+
+// Topics bound to a single room
+const ROOM_TOPICS: RealtimeTopic[] = ["roomStateUpdates", "clientUpdates"];
+
+export interface RoomEvent {
+  type: "create" | "dispose" | "join" | "leave" | "lock" | "unlock" | "update";
+  roomId: string;
+  name?: string;
+  sessionId?: string;
+}
+
+// Data sources used to build pushed payloads
+export interface RealtimeDataProvider {
+  getRoomList: (
+    params: RoomListParams,
+    access: AccessControlOptions,
+    usage?: SystemUsage,
+  ) => Promise<any>;
+  getRoomInspectData: (
+    roomId: string,
+    access: AccessControlOptions,
+  ) => Promise<any>;
+  getServerMetrics: () => Promise<any>;
+}
+
+interface Subscription {
+  roomId?: string;
+  params?: RoomListParams;
+  // Last payload sent, used to skip pushing unchanged data
+  lastPayload?: string;
+}
+
+interface Subscriber {
+  socket: WebSocket;
+  // Permissions of the user who requested the connection ticket
+  access: AccessControlOptions;
+  subscriptions: Map<RealtimeTopic, Subscription>;
+}
+
+// Announce a room lifecycle event to every monitor listening
+export function publishRoomEvent(event: RoomEvent) {
+  matchMaker.presence?.publish(MONITOR_EVENTS_CHANNEL, event);
+}
+
+// Resolve realtime settings (with defaults) to expose to the frontend
+export function getRealtimeSettings(opts: Partial<MonitorOptions>) {
+  const realtime = opts.realtime || {};
+  const enabled = realtime.enabled !== false && !!realtime.transport;
+
+  return {
+    enabled,
+    transport: enabled ? realtime.transport : "http-polling",
+    updateInterval: realtime.updateInterval || 5000,
+    subscriptions: {
+      roomListUpdates: realtime.subscriptions?.roomListUpdates !== false,
+      roomStateUpdates: realtime.subscriptions?.roomStateUpdates !== false,
+      clientUpdates: realtime.subscriptions?.clientUpdates !== false,
+      serverMetrics: realtime.subscriptions?.serverMetrics !== false,
+    },
+  };
+}
+
+// Check whether the given realtime transport is enabled
+export function isRealtimeTransport(
+  opts: Partial<MonitorOptions>,
+  transport: MonitorOptions["realtime"]["transport"],
+) {
+  const settings = getRealtimeSettings(opts);
+  return settings.enabled && settings.transport === transport;
+}
+
+/**
+ * WebSocket channel pushing room list, room state, client and metrics
+ * updates to subscribed dashboards.
+ *
+ * The channel shares the HTTP server of the express app: it is attached on
+ * the first ticket request, so any middleware guarding the monitor routes
+ * also guards access to the channel.
+ */
+export class RealtimeServer {
+  protected wss = new WebSocketServer({ noServer: true });
+  protected subscribers = new Set<Subscriber>();
+  protected tickets = new Map<
+    string,
+    { expiresAt: number; access: AccessControlOptions }
+  >();
+  protected attachedServers = new WeakSet<http.Server>();
+
+  protected updateInterval?: NodeJS.Timeout;
+  protected flushTimeout?: NodeJS.Timeout;
+
+  // Pending changes, flushed after EVENT_FLUSH_DELAY
+  protected roomListChanged = false;
+  protected changedRooms = new Set<string>();
+
+  protected settings: ReturnType<typeof getRealtimeSettings>;
+
+  // Latest system usage sample (shared by every room list push)
+  protected usage?: SystemUsage;
+  protected ticking = false;
+
+  constructor(
+    protected opts: Partial<MonitorOptions>,
+    protected provider: RealtimeDataProvider,
+  ) {
+    this.settings = getRealtimeSettings(opts);
+  }
+
+  /**
+   * Handle WebSocket upgrades at `path` on the HTTP server of the request.
+   * Upgrades on any other path are forwarded to the previous listeners
+   * (e.g. Colyseus' own WebSocket transport).
+   */
+  attach(req: express.Request, path: string) {
+    const server: http.Server = (req.socket as any).server;
+
+    if (!server || this.attachedServers.has(server)) {
+      return;
+    }
+
+    this.attachedServers.add(server);
+
+    const listeners = server.listeners("upgrade");
+    server.removeAllListeners("upgrade");
+
+    server.on(
+      "upgrade",
+      (upgradeReq: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(upgradeReq.url, "http://localhost");
+
+        if (url.pathname !== path) {
+          listeners.forEach((listener) =>
+            listener.call(server, upgradeReq, socket, head),
+          );
+          return;
+        }
+
+        const access = this.consumeTicket(url.searchParams.get("ticket"));
+
+        if (!access) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
+        this.wss.handleUpgrade(upgradeReq, socket, head, (ws) =>
+          this.onConnection(ws, access),
+        );
+      },
+    );
+  }
+
+  // Issue a single-use ticket to open the WebSocket channel
+  // (the connection is granted the given permissions)
+  createTicket(access: AccessControlOptions) {
+    const now = Date.now();
+
+    // Discard expired tickets
+    this.tickets.forEach(({ expiresAt }, ticket) => {
+      if (expiresAt < now) this.tickets.delete(ticket);
+    });
+
+    const ticket = crypto.randomBytes(16).toString("hex");
+    this.tickets.set(ticket, {
+      expiresAt: now + TICKET_EXPIRATION_TIME,
+      access,
+    });
+
+    return ticket;
+  }
+
+  // Get the permissions of a valid ticket, and invalidate it
+  protected consumeTicket(ticket: string | null) {
+    const entry = ticket && this.tickets.get(ticket);
+    this.tickets.delete(ticket);
+
+    return entry && entry.expiresAt >= Date.now() ? entry.access : undefined;
+  }
+
+  protected onConnection(socket: WebSocket, access: AccessControlOptions) {
+    const subscriber: Subscriber = {
+      socket,
+      access,
+      subscriptions: new Map(),
+    };
+
+    this.subscribers.add(subscriber);
+
+    if (this.subscribers.size === 1) {
+      this.start();
+    }
+
+    socket.on("message", (data) => this.onMessage(subscriber, data));
+    socket.on("error", (err) => console.error(err));
+    socket.on("close", () => {
+      this.subscribers.delete(subscriber);
+
+      if (this.subscribers.size === 0) {
+        this.stop();
+      }
+    });
+  }
+
+  protected onMessage(subscriber: Subscriber, data: RawData) {
+    let message: any;
+
+    try {
+      message = JSON.parse(data.toString());
+    } catch (e) {
+      return this.send(subscriber, { error: "Invalid message" });
+    }
+
+    const topic = message.topic as RealtimeTopic;
+
+    if (!REALTIME_TOPICS.includes(topic)) {
+      return this.send(subscriber, { topic, error: "Unknown topic" });
+    }
+
+    if (message.type === "unsubscribe") {
+      subscriber.subscriptions.delete(topic);
+      return;
+    }
+
+    if (message.type !== "subscribe") {
+      return this.send(subscriber, { topic, error: "Unknown message type" });
+    }
+
+    if (!this.settings.subscriptions[topic]) {
+      return this.send(subscriber, {
+        topic,
+        error: `Subscription to ${topic} is disabled`,
+      });
+    }
+
+    if (ROOM_TOPICS.includes(topic)) {
+      if (typeof message.roomId !== "string") {
+        return this.send(subscriber, { topic, error: "Missing roomId" });
+      }
+
+      if (!hasPermission(subscriber.access, "allowStateInspection")) {
+        return this.send(subscriber, {
+          topic,
+          roomId: message.roomId,
+          error: "State inspection is not allowed",
+        });
+      }
+    }
+
+    const subscription: Subscription = {
+      roomId: message.roomId,
+      params: message.params || {},
+    };
+    subscriber.subscriptions.set(topic, subscription);
+
+    // Send the current data right away
+    this.push(subscriber, topic, subscription);
+  }
+
+  protected onRoomEvent = (event: RoomEvent) => {
+    this.roomListChanged = true;
+    this.changedRooms.add(event.roomId);
+
+    if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => this.flush(), EVENT_FLUSH_DELAY);
+    }
+  };
+
+  protected start() {
+    matchMaker.presence?.subscribe(MONITOR_EVENTS_CHANNEL, this.onRoomEvent);
+
+    this.updateInterval = setInterval(
+      () => this.tick(),
+      this.settings.updateInterval,
+    );
+  }
+
+  protected stop() {
+    matchMaker.presence?.unsubscribe(MONITOR_EVENTS_CHANNEL, this.onRoomEvent);
+
+    clearInterval(this.updateInterval);
+    clearTimeout(this.flushTimeout);
+    this.updateInterval = undefined;
+    this.flushTimeout = undefined;
+    this.roomListChanged = false;
+    this.changedRooms.clear();
+    this.usage = undefined;
+  }
+
+  // Push updates caused by room lifecycle events
+  protected flush() {
+    const roomListChanged = this.roomListChanged;
+    const changedRooms = new Set(this.changedRooms);
+
+    this.flushTimeout = undefined;
+    this.roomListChanged = false;
+    this.changedRooms.clear();
+
+    this.subscribers.forEach((subscriber) => {
+      subscriber.subscriptions.forEach((subscription, topic) => {
+        if (
+          (topic === "roomListUpdates" && roomListChanged) ||
+          (topic === "clientUpdates" && changedRooms.has(subscription.roomId))
+        ) {
+          this.push(subscriber, topic, subscription);
+        }
+      });
+    });
+  }
+
+  // Push periodic updates (metrics, room list rates and room state)
+  protected async tick() {
+    // Skip this tick if the previous one is still sampling
+    if (this.ticking) return;
+    this.ticking = true;
+
+    const topics = new Set<RealtimeTopic>();
+    this.subscribers.forEach((subscriber) =>
+      subscriber.subscriptions.forEach((_, topic) => topics.add(topic)),
+    );
+
+    // The CPU is sampled over a second: sample it once for every subscriber
+    let metrics: any;
+
+    if (topics.has("serverMetrics") || topics.has("roomListUpdates")) {
+      try {
+        metrics = await this.provider.getServerMetrics();
+        this.usage = { cpu: metrics.cpu, memory: metrics.memory };
+      } catch (e) {
+        console.error("@colyseus/monitor: metrics sampling failed", e);
+      }
+    }
+
+    this.subscribers.forEach((subscriber) => {
+      subscriber.subscriptions.forEach((subscription, topic) => {
+        if (topic !== "clientUpdates") {
+          this.push(subscriber, topic, subscription, metrics);
+        }
+      });
+    });
+
+    this.ticking = false;
+  }
+
+  protected async push(
+    subscriber: Subscriber,
+    topic: RealtimeTopic,
+    subscription: Subscription,
+    metrics?: any,
+  ) {
+    const roomId = subscription.roomId;
+    let data: any;
+
+    try {
+      switch (topic) {
+        case "roomListUpdates":
+          data = await this.provider.getRoomList(
+            subscription.params,
+            subscriber.access,
+            this.usage,
+          );
+          break;
+
+        case "serverMetrics":
+          data = metrics || (await this.provider.getServerMetrics());
+          break;
+
+        case "roomStateUpdates": {
+          const { state, stateSize, stats } =
+            await this.provider.getRoomInspectData(roomId, subscriber.access);
+          data = { state, stateSize, stats };
+          break;
+        }
+
+        case "clientUpdates": {
+          const inspectData = await this.provider.getRoomInspectData(
+            roomId,
+            subscriber.access,
+          );
+          data = {
+            clients: inspectData.clients,
+            locked: inspectData.locked,
+            private: inspectData.private,
+            metadata: inspectData.metadata,
+          };
+          break;
+        }
+      }
+    } catch (e) {
+      return this.send(subscriber, { topic, roomId, error: e.message });
+    }
+
+    // Subscription may have changed while fetching data
+    if (subscriber.subscriptions.get(topic) !== subscription) {
+      return;
+    }
+
+    // Skip unchanged room data
+    if (topic === "roomStateUpdates" || topic === "clientUpdates") {
+      const payload = JSON.stringify(data);
+      if (payload === subscription.lastPayload) return;
+      subscription.lastPayload = payload;
+    }
+
+    this.send(subscriber, { topic, roomId, data });
+  }
+
+  protected send(subscriber: Subscriber, message: any) {
+    if (subscriber.socket.readyState === WebSocket.OPEN) {
+      subscriber.socket.send(JSON.stringify(message));
+    }
+  }
+}
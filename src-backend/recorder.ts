@@ -0,0 +1,298 @@
+//
+// Room session recording, and replay into a fresh room
+//
+import { ClientState, matchMaker, Room } from "@colyseus/core";
+import { EventEmitter } from "events";
+
+import { toPlainState } from "./snapshots.js";
+import { serializePayload } from "./traffic.js";
+
+// Recording format version (bumped on incompatible changes)
+const RECORDING_VERSION = 1;
+
+// Maximum number of events recorded (recording stops once reached)
+const MAX_RECORDED_EVENTS = 10000;
+
+export interface RecordedEvent {
+  // Milliseconds since the recording started
+  time: number;
+  type: "join" | "leave" | "message";
+  sessionId: string;
+  // "join": join options and auth data
+  options?: any;
+  auth?: any;
+  // "leave": whether the client left voluntarily
+  consented?: boolean;
+  // "message"
+  messageType?: string | number;
+  payload?: any;
+  // whether the payload was sent as raw bytes (`sendBytes()`)
+  bytes?: boolean;
+}
+
+export interface SessionRecording {
+  version: number;
+  roomName: string;
+  roomId: string;
+  // Options the room was created with
+  createOptions?: any;
+  startedAt: number;
+  endedAt?: number;
+  // Full state when the recording started
+  state: any;
+  events: RecordedEvent[];
+  truncated: boolean;
+}
+
+/**
+ * Records the inputs of a room (joins, leaves and client messages)
+ */
+export class SessionRecorder {
+  public recording?: SessionRecording;
+  public createOptions?: any;
+
+  get active() {
+    return this.recording !== undefined && this.recording.endedAt === undefined;
+  }
+
+  begin(room: Room) {
+    this.recording = {
+      version: RECORDING_VERSION,
+      roomName: room.roomName,
+      roomId: room.roomId,
+      createOptions: serializePayload(this.createOptions),
+      startedAt: Date.now(),
+      state: toPlainState(room.state),
+      events: [],
+      truncated: false,
+    };
+
+    // clients already in the room are replayed as joining first (their join
+    // options are unknown)
+    room.clients.forEach((client) =>
+      this.add({
+        type: "join",
+        sessionId: client.sessionId,
+        auth: client.auth,
+      }),
+    );
+  }
+
+  end() {
+    if (this.active) {
+      this.recording.endedAt = Date.now();
+    }
+  }
+
+  add(event: Omit<RecordedEvent, "time">) {
+    if (!this.active) {
+      return;
+    }
+
+    if (this.recording.events.length >= MAX_RECORDED_EVENTS) {
+      this.recording.truncated = true;
+      this.end();
+      return;
+    }
+
+    const { options, auth, payload } = event;
+
+    this.recording.events.push({
+      ...event,
+      time: Date.now() - this.recording.startedAt,
+      options: serializePayload(options),
+      auth: serializePayload(auth),
+      payload: serializePayload(payload),
+      bytes: payload instanceof Uint8Array || undefined,
+    });
+  }
+
+  getStatus() {
+    return {
+      recording: this.active,
+      startedAt: this.recording?.startedAt,
+      endedAt: this.recording?.endedAt,
+      events: this.recording?.events.length ?? 0,
+      truncated: this.recording?.truncated ?? false,
+    };
+  }
+}
+
+// Get (or create) the session recorder of a room
+export function getRoomRecorder(room: Room): SessionRecorder {
+  const anyRoom = room as any;
+
+  if (!anyRoom._monitorRecorder) {
+    Object.defineProperty(anyRoom, "_monitorRecorder", {
+      value: new SessionRecorder(),
+      enumerable: false,
+    });
+  }
+
+  return anyRoom._monitorRecorder;
+}
+
+// Check the structure of an uploaded recording
+export function validateRecording(recording: any): SessionRecording {
+  if (
+    !recording ||
+    typeof recording !== "object" ||
+    typeof recording.roomName !== "string" ||
+    !Array.isArray(recording.events)
+  ) {
+    throw new Error("Invalid recording");
+  }
+
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${recording.version}`);
+  }
+
+  return recording;
+}
+
+// Stand-in for a recorded client (messages sent to it are discarded).
+// `replayed` lets rooms tell stand-ins apart from authenticated clients: their
+// recorded `auth` didn't go through `onAuth()`.
+export function createReplayClient(
+  sessionId: string,
+  auth?: any,
+  joinedAt?: number,
+) {
+  const noop = () => {};
+
+  return {
+    id: sessionId,
+    sessionId,
+    replayed: true,
+    _joinedAt: joinedAt,
+    state: ClientState.JOINED,
+    ref: new EventEmitter(),
+    userData: undefined,
+    auth,
+    send: noop,
+    sendBytes: noop,
+    enqueueRaw: noop,
+    raw: noop,
+    error: noop,
+    leave: noop,
+    close: noop,
+  };
+}
+
+/**
+ * Feed recorded events into a room, with their original timing (divided by
+ * `speed`). Replayed clients are stand-ins: messages sent to them are
+ * discarded, and those still in the room once the replay ends are removed
+ * (without calling `onLeave()`).
+ */
+export async function replayEvents(
+  room: any,
+  events: RecordedEvent[],
+  speed: number = 1,
+) {
+  const clients = new Map<string, ReturnType<typeof createReplayClient>>();
+  const startedAt = Date.now();
+
+  let disposed = false;
+  room._events.once("dispose", () => (disposed = true));
+
+  for (const event of events) {
+    const delay = event.time / speed - (Date.now() - startedAt);
+
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (disposed) {
+      return;
+    }
+
+    try {
+      await replayEvent(room, clients, event);
+    } catch (e) {
+      // errors of room handlers are captured in the room log
+    }
+  }
+
+  clients.forEach((client) => room.clients.delete(client));
+}
+
+async function replayEvent(
+  room: any,
+  clients: Map<string, ReturnType<typeof createReplayClient>>,
+  event: RecordedEvent,
+) {
+  const client = clients.get(event.sessionId);
+
+  switch (event.type) {
+    case "join": {
+      const joining = createReplayClient(
+        event.sessionId,
+        event.auth,
+        room.clock.elapsedTime,
+      );
+      clients.set(event.sessionId, joining);
+      room.clients.push(joining);
+      await room.onJoin?.(joining, event.options || {}, event.auth);
+      break;
+    }
+
+    case "message": {
+      if (!client) break;
+
+      const payload = event.bytes
+        ? Uint8Array.from(event.payload)
+        : event.payload;
+      const handler = room.onMessageHandlers[event.messageType];
+
+      if (handler) {
+        await handler.callback(
+          client,
+          handler.validate ? handler.validate(payload) : payload,
+        );
+      } else {
+        await room.onMessageHandlers["*"]?.callback(
+          client,
+          event.messageType,
+          payload,
+        );
+      }
+      break;
+    }
+
+    case "leave": {
+      if (!client) break;
+
+      clients.delete(event.sessionId);
+      room.clients.delete(client);
+      client.state = ClientState.LEAVING;
+
+      // not awaited: `allowReconnection()` would wait for its timeout
+      Promise.resolve()
+        .then(() => room.onLeave?.(client, event.consented))
+        .catch(() => {});
+      break;
+    }
+  }
+}
+
+/**
+ * Create a room of the recorded type, and feed the recorded inputs into it
+ * (in the room's process).
+ */
+export async function replaySession(
+  recording: SessionRecording,
+  speed: number = 1,
+) {
+  const room = await matchMaker.createRoom(
+    recording.roomName,
+    recording.createOptions || {},
+  );
+
+  await matchMaker.remoteRoomCall(room.roomId, "_replaySession", [
+    recording,
+    speed,
+  ]);
+
+  return { roomId: room.roomId, name: room.name };
+}
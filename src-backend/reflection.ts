@@ -0,0 +1,79 @@
+//
+// Schema reflection (declared types of the room state), for the state viewer
+//
+
+export type StateFieldType =
+  | { kind: "primitive"; type: string }
+  | { kind: "schema"; name: string }
+  | { kind: "map" | "array" | "set" | "collection"; child: StateFieldType };
+
+export interface StateSchema {
+  // Name of the state's Schema type
+  root: string;
+  // Declared fields of each Schema type (in declaration order)
+  types: Record<string, Array<{ name: string; type: StateFieldType }>>;
+}
+
+const COLLECTION_KINDS = ["map", "array", "set", "collection"] as const;
+
+function getMetadata(type: any) {
+  return type?.[(Symbol as any).metadata];
+}
+
+/**
+ * Describe the declared types of a Schema state (`undefined` for states not
+ * using @colyseus/schema)
+ */
+export function getStateSchema(state: any): StateSchema | undefined {
+  if (!state || !getMetadata(state.constructor)) {
+    return undefined;
+  }
+
+  const names = new Map<any, string>();
+  const types: StateSchema["types"] = {};
+
+  const describeSchema = (schemaType: any): string => {
+    if (names.has(schemaType)) {
+      return names.get(schemaType);
+    }
+
+    // distinguish different classes with the same name
+    const baseName = schemaType.name || "Schema";
+    let name = baseName;
+    for (let i = 2; types[name] !== undefined; i++) {
+      name = `${baseName}${i}`;
+    }
+
+    names.set(schemaType, name);
+    types[name] = [];
+
+    // fields inherited from parent classes are on the metadata's prototype
+    const metadata = getMetadata(schemaType);
+    const fields = [];
+    for (const key in metadata) {
+      if (!isNaN(Number(key))) fields.push(metadata[key]);
+    }
+
+    types[name] = fields
+      .sort((a, b) => a.index - b.index)
+      .map((field) => ({ name: field.name, type: describeType(field.type) }));
+
+    return name;
+  };
+
+  const describeType = (type: any): StateFieldType => {
+    if (typeof type === "string") {
+      return { kind: "primitive", type };
+    } else if (typeof type === "function") {
+      return { kind: "schema", name: describeSchema(type) };
+    }
+
+    const kind = COLLECTION_KINDS.find((kind) => type?.[kind] !== undefined);
+
+    return kind
+      ? { kind, child: describeType(type[kind]) }
+      : { kind: "primitive", type: "unknown" };
+  };
+
+  return { root: describeSchema(state.constructor), types };
+}
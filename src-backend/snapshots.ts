@@ -0,0 +1,145 @@
+//
+// Room state snapshots, and structural diffs between them
+//
+import type { Room } from "@colyseus/core";
+
+// Maximum number of snapshots kept per room (oldest are discarded)
+const MAX_SNAPSHOTS = 20;
+
+// Maximum number of differences returned by a diff
+const MAX_DIFF_ENTRIES = 1000;
+
+// Refers to the current state of the room in diffs
+export const LIVE_STATE = "live";
+
+export interface StateSnapshot {
+  id: number;
+  name: string;
+  timestamp: number;
+  state: any;
+}
+
+export interface StateDiffEntry {
+  path: string[];
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+}
+
+export interface StateDiff {
+  entries: StateDiffEntry[];
+  // Whether entries were omitted (see MAX_DIFF_ENTRIES)
+  truncated: boolean;
+}
+
+/**
+ * Bounded list of state snapshots
+ */
+export class SnapshotStore {
+  protected snapshots: StateSnapshot[] = [];
+  protected nextId = 1;
+
+  constructor(public readonly size: number = MAX_SNAPSHOTS) {}
+
+  add(name: string, state: any) {
+    const id = this.nextId++;
+    const snapshot: StateSnapshot = {
+      id,
+      name: name || `Snapshot #${id}`,
+      timestamp: Date.now(),
+      state: toPlainState(state),
+    };
+
+    this.snapshots.push(snapshot);
+
+    if (this.snapshots.length > this.size) {
+      this.snapshots.shift();
+    }
+
+    return snapshot;
+  }
+
+  get(id: number) {
+    return this.snapshots.find((snapshot) => snapshot.id === id);
+  }
+
+  remove(id: number) {
+    const index = this.snapshots.findIndex((snapshot) => snapshot.id === id);
+
+    if (index !== -1) {
+      this.snapshots.splice(index, 1);
+    }
+
+    return index !== -1;
+  }
+
+  // List snapshots (without their state)
+  list() {
+    return this.snapshots.map(({ id, name, timestamp }) => ({
+      id,
+      name,
+      timestamp,
+    }));
+  }
+}
+
+// Copy the state as plain JSON (Schema instances implement `toJSON()`)
+export function toPlainState(state: any) {
+  return state === undefined ? null : JSON.parse(JSON.stringify(state));
+}
+
+function isObject(value: any) {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Structural diff of two (plain JSON) states
+ */
+export function diffState(before: any, after: any): StateDiff {
+  const entries: StateDiffEntry[] = [];
+  let truncated = false;
+
+  const add = (entry: StateDiffEntry) => {
+    if (entries.length < MAX_DIFF_ENTRIES) {
+      entries.push(entry);
+    } else {
+      truncated = true;
+    }
+  };
+
+  const visit = (a: any, b: any, path: string[]) => {
+    if (isObject(a) && isObject(b) && Array.isArray(a) === Array.isArray(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+      keys.forEach((key) => {
+        if (!(key in b)) {
+          add({ path: [...path, key], kind: "removed", before: a[key] });
+        } else if (!(key in a)) {
+          add({ path: [...path, key], kind: "added", after: b[key] });
+        } else {
+          visit(a[key], b[key], [...path, key]);
+        }
+      });
+    } else if (a !== b) {
+      add({ path, kind: "changed", before: a, after: b });
+    }
+  };
+
+  visit(before, after, []);
+
+  return { entries, truncated };
+}
+
+// Get (or create) the snapshot store of a room
+export function getRoomSnapshots(room: Room): SnapshotStore {
+  const anyRoom = room as any;
+
+  if (!anyRoom._monitorSnapshots) {
+    Object.defineProperty(anyRoom, "_monitorSnapshots", {
+      value: new SnapshotStore(),
+      enumerable: false,
+    });
+  }
+
+  return anyRoom._monitorSnapshots;
+}
@@ -0,0 +1,164 @@
+//
+// Per-room network and message-rate instrumentation
+//
+import type { Room } from "@colyseus/core";
+
+// Window over which rates are averaged (seconds)
+const RATE_WINDOW = 10;
+
+/**
+ * Counts occurrences (or amounts), keeping per-second buckets over the
+ * rate window.
+ */
+export class RateCounter {
+  public total = 0;
+
+  protected buckets = new Array<number>(RATE_WINDOW).fill(0);
+  protected second = currentSecond();
+
+  add(amount: number = 1) {
+    this.advance();
+    this.total += amount;
+    this.buckets[this.second % RATE_WINDOW] += amount;
+  }
+
+  // Average per second over the rate window
+  rate() {
+    this.advance();
+    const sum = this.buckets.reduce((total, amount) => total + amount, 0);
+    return Math.round((sum / RATE_WINDOW) * 100) / 100;
+  }
+
+  toJSON() {
+    return { total: this.total, rate: this.rate() };
+  }
+
+  // Clear the buckets of seconds elapsed since the last update
+  protected advance() {
+    const now = currentSecond();
+    const elapsed = Math.min(now - this.second, RATE_WINDOW);
+
+    for (let i = 1; i <= elapsed; i++) {
+      this.buckets[(this.second + i) % RATE_WINDOW] = 0;
+    }
+
+    this.second = now;
+  }
+}
+
+function currentSecond() {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Traffic of a single client
+export class ClientStats {
+  // Remote address (as seen by the transport)
+  ip?: string;
+
+  messagesIn = 0;
+  bytesIn = 0;
+  messagesOut = 0;
+  bytesOut = 0;
+
+  toJSON() {
+    return {
+      messagesIn: this.messagesIn,
+      bytesIn: this.bytesIn,
+      messagesOut: this.messagesOut,
+      bytesOut: this.bytesOut,
+    };
+  }
+}
+
+export class RoomStats {
+  // Messages received from clients
+  messagesIn = new RateCounter();
+  messagesInByType = new Map<string, RateCounter>();
+
+  // Messages sent to all clients (`room.broadcast()`)
+  broadcasts = new RateCounter();
+
+  // Messages sent to a single client (`client.send()`)
+  directSends = new RateCounter();
+
+  // State patches, and their encoded size (bytes)
+  patches = new RateCounter();
+  patchBytes = new RateCounter();
+
+  // Traffic per client (by `sessionId`, kept while reconnecting)
+  clients = new Map<string, ClientStats>();
+
+  getClient(sessionId: string) {
+    if (!this.clients.has(sessionId)) {
+      this.clients.set(sessionId, new ClientStats());
+    }
+
+    return this.clients.get(sessionId);
+  }
+
+  countMessageIn(type: string | number) {
+    const key = `${type}`;
+
+    if (!this.messagesInByType.has(key)) {
+      this.messagesInByType.set(key, new RateCounter());
+    }
+
+    this.messagesIn.add();
+    this.messagesInByType.get(key).add();
+  }
+
+  countPatch(bytes: number) {
+    this.patches.add();
+    this.patchBytes.add(bytes);
+  }
+
+  // Rates listed in the room list (sortable columns)
+  getRates() {
+    return {
+      messageRate: this.messagesIn.rate(),
+      broadcastRate: this.broadcasts.rate(),
+      sendRate: this.directSends.rate(),
+      patchRate: this.patches.rate(),
+      patchBytesRate: this.patchBytes.rate(),
+    };
+  }
+
+  toJSON() {
+    const messagesInByType: Record<string, { total: number; rate: number }> =
+      {};
+
+    this.messagesInByType.forEach((counter, type) => {
+      messagesInByType[type] = counter.toJSON();
+    });
+
+    return {
+      window: RATE_WINDOW,
+      messagesIn: this.messagesIn.toJSON(),
+      messagesInByType,
+      broadcasts: this.broadcasts.toJSON(),
+      directSends: this.directSends.toJSON(),
+      patches: this.patches.toJSON(),
+      patchBytes: {
+        ...this.patchBytes.toJSON(),
+        average:
+          this.patches.total > 0
+            ? Math.round(this.patchBytes.total / this.patches.total)
+            : 0,
+      },
+    };
+  }
+}
+
+// Get (or create) the stats of a room
+export function getRoomStats(room: Room): RoomStats {
+  const anyRoom = room as any;
+
+  if (!anyRoom._monitorStats) {
+    Object.defineProperty(anyRoom, "_monitorStats", {
+      value: new RoomStats(),
+      enumerable: false,
+    });
+  }
+
+  return anyRoom._monitorStats;
+}
@@ -0,0 +1,282 @@
+//
+// Server-Sent Events stream for the monitor dashboard
+//
+import type express from "express";
+
+import type { SystemUsage } from "./api.js";
+import { getRequestAccess } from "./auth.js";
+import type { MonitorOptions } from "./index.js";
+import { hasPermission } from "./methods.js";
+import {
+  getRealtimeSettings,
+  RealtimeDataProvider,
+  RealtimeTopic,
+} from "./realtime.js";
+
+// Operations describing how to transform a JSON value into another
+export interface JSONPatch {
+  op: "add" | "remove" | "replace";
+  path: Array<string | number>;
+  value?: any;
+}
+
+function isObject(value: any) {
+  return value !== null && typeof value === "object";
+}
+
+// Compute the list of patches turning `previous` into `current`
+function diffJSON(
+  previous: any,
+  current: any,
+  path: Array<string | number> = [],
+  patches: JSONPatch[] = [],
+) {
+  if (previous === current) {
+    return patches;
+  }
+
+  if (
+    !isObject(previous) ||
+    !isObject(current) ||
+    Array.isArray(previous) !== Array.isArray(current)
+  ) {
+    patches.push({ op: "replace", path, value: current });
+    return patches;
+  }
+
+  if (Array.isArray(previous)) {
+    const length = Math.min(previous.length, current.length);
+
+    for (let i = 0; i < length; i++) {
+      diffJSON(previous[i], current[i], [...path, i], patches);
+    }
+
+    // Remove from the end, so indexes remain valid while applying
+    for (let i = previous.length - 1; i >= current.length; i--) {
+      patches.push({ op: "remove", path: [...path, i] });
+    }
+
+    for (let i = previous.length; i < current.length; i++) {
+      patches.push({ op: "add", path: [...path, i], value: current[i] });
+    }
+
+    return patches;
+  }
+
+  for (const key in previous) {
+    if (!(key in current)) {
+      patches.push({ op: "remove", path: [...path, key] });
+    }
+  }
+
+  for (const key in current) {
+    if (!(key in previous)) {
+      patches.push({ op: "add", path: [...path, key], value: current[key] });
+    } else {
+      diffJSON(previous[key], current[key], [...path, key], patches);
+    }
+  }
+
+  return patches;
+}
+
+// Compare rooms ignoring `elapsedTime`, which changes on every sample
+function roomChanged(previous: any, current: any) {
+  return (
+    JSON.stringify({ ...previous, elapsedTime: undefined }) !==
+    JSON.stringify({ ...current, elapsedTime: undefined })
+  );
+}
+
+/**
+ * Stream typed events to the dashboard at `realtime.updateInterval`:
+ *
+ * - `roomList` / `roomListDiff`: full room list, then changes to it
+ * - `metrics`: server metrics sample
+ * - `roomState` / `roomStatePatch`: full state of `roomId`, then patches
+ * - `clients`: clients of `roomId`, whenever they change
+ * - `failure`: a topic couldn't be updated
+ *
+ * Topics are selected through the `topics` query parameter.
+ */
+export function getStreamHandler(
+  opts: Partial<MonitorOptions>,
+  provider: RealtimeDataProvider,
+): express.RequestHandler {
+  const settings = getRealtimeSettings(opts);
+
+  return (req: express.Request, res: express.Response) => {
+    const roomId = req.query.roomId as string;
+    const access = getRequestAccess(res);
+    const topics = ((req.query.topics as string) || "")
+      .split(",")
+      .filter((topic) => settings.subscriptions[topic]) as RealtimeTopic[];
+
+    const roomListParams = {
+      filter: req.query.filter as string,
+      view: req.query.view as string,
+      sort: req.query.sort as string,
+      order: req.query.order as "asc" | "desc",
+      page: parseInt(req.query.page as string),
+      limit: parseInt(req.query.limit as string),
+    };
+
+    const send = (event: string, data: any) =>
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // disable proxy buffering (nginx)
+    });
+    res.flushHeaders();
+
+    // Last data sent, to compute diffs against
+    let roomList: any;
+    let roomState: any;
+    let roomStats: string;
+    let clients: string;
+
+    const updateRoomList = async (usage?: SystemUsage) => {
+      const data = await provider.getRoomList(roomListParams, access, usage);
+
+      if (!roomList) {
+        send("roomList", data);
+      } else {
+        const { rooms, columns, pagination, connections, cpu, memory } = data;
+        const previousRooms = new Map<string, any>(
+          roomList.rooms.map((room) => [room.roomId, room]),
+        );
+        const roomIds = rooms.map((room) => room.roomId);
+
+        // Settings (actions, views, access...) don't change: only send the
+        // room data
+        send("roomListDiff", {
+          columns:
+            JSON.stringify(columns) !== JSON.stringify(roomList.columns)
+              ? columns
+              : undefined,
+          pagination,
+          connections,
+          cpu,
+          memory,
+          roomIds,
+          removed: roomList.rooms
+            .map((room) => room.roomId)
+            .filter((id) => !roomIds.includes(id)),
+          changed: rooms.filter(
+            (room) =>
+              !previousRooms.has(room.roomId) ||
+              roomChanged(previousRooms.get(room.roomId), room),
+          ),
+        });
+      }
+
+      roomList = data;
+    };
+
+    const updateRoom = async () => {
+      const data = await provider.getRoomInspectData(roomId, access);
+
+      if (topics.includes("roomStateUpdates")) {
+        const state = JSON.parse(JSON.stringify(data.state ?? null));
+
+        const stats = JSON.stringify(data.stats);
+
+        if (roomState === undefined) {
+          send("roomState", {
+            roomId,
+            state,
+            stateSize: data.stateSize,
+            stats: data.stats,
+          });
+        } else {
+          const patches = diffJSON(roomState, state);
+
+          // room stats change independently of the state
+          if (patches.length > 0 || stats !== roomStats) {
+            send("roomStatePatch", {
+              roomId,
+              patches,
+              stateSize: data.stateSize,
+              stats: data.stats,
+            });
+          }
+        }
+
+        roomState = state;
+        roomStats = stats;
+      }
+
+      if (topics.includes("clientUpdates")) {
+        const payload = JSON.stringify({
+          clients: data.clients,
+          locked: data.locked,
+          private: data.private,
+          metadata: data.metadata,
+        });
+
+        if (payload !== clients) {
+          send("clients", { roomId, ...JSON.parse(payload) });
+        }
+
+        clients = payload;
+      }
+    };
+
+    const update = async (topic: RealtimeTopic, fn: () => Promise<void>) => {
+      try {
+        await fn();
+      } catch (e) {
+        send("failure", { topic, roomId, error: e.message });
+      }
+    };
+
+    let inspectRoom =
+      !!roomId &&
+      (topics.includes("roomStateUpdates") || topics.includes("clientUpdates"));
+
+    if (inspectRoom && !hasPermission(access, "allowStateInspection")) {
+      inspectRoom = false;
+      send("failure", {
+        topic: "roomStateUpdates",
+        roomId,
+        error: "State inspection is not allowed",
+      });
+    }
+
+    let updating = false;
+    const tick = async () => {
+      // Skip this sample if the previous one is still in progress
+      if (updating) return;
+      updating = true;
+
+      // The CPU is sampled over a second: sample it once for both topics
+      let usage: SystemUsage | undefined;
+
+      if (topics.includes("serverMetrics")) {
+        await update("serverMetrics", async () => {
+          const metrics = await provider.getServerMetrics();
+          usage = { cpu: metrics.cpu, memory: metrics.memory };
+          send("metrics", metrics);
+        });
+      }
+
+      if (topics.includes("roomListUpdates")) {
+        await update("roomListUpdates", () => updateRoomList(usage));
+      }
+
+      if (inspectRoom) {
+        await update("roomStateUpdates", updateRoom);
+      }
+
+      updating = false;
+    };
+
+    tick();
+    const interval = setInterval(tick, settings.updateInterval);
+
+    req.on("close", () => clearInterval(interval));
+  };
+}
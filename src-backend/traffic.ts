@@ -0,0 +1,120 @@
+//
+// Per-room message traffic capture (opt-in, from the inspector)
+//
+import type { Room } from "@colyseus/core";
+
+import { toSerializable } from "./logs.js";
+
+// Maximum number of messages kept per room
+const TRAFFIC_BUFFER_SIZE = 500;
+
+export interface TrafficEntry {
+  id: number;
+  timestamp: number;
+  // "in": sent by a client, "out": sent to one (or all) clients
+  direction: "in" | "out";
+  type?: string | number;
+  // Sender ("in") or recipient ("out"); not set for broadcasts
+  sessionId?: string;
+  broadcast?: boolean;
+  payload?: any;
+  // Encoded size (bytes); unknown for messages queued until the next patch
+  size?: number;
+}
+
+export interface TrafficFilter {
+  // Include entries after this id
+  after?: number;
+  sessionId?: string;
+  type?: string;
+  direction?: "in" | "out";
+  // Maximum number of (most recent) entries to return
+  limit?: number;
+}
+
+/**
+ * Bounded ring buffer of captured messages. Nothing is captured until
+ * `start()` is called.
+ */
+export class TrafficBuffer {
+  public capturing = false;
+
+  protected entries: TrafficEntry[] = [];
+  protected start = 0;
+  protected nextId = 1;
+
+  constructor(public readonly size: number = TRAFFIC_BUFFER_SIZE) {}
+
+  begin() {
+    this.capturing = true;
+  }
+
+  end() {
+    this.capturing = false;
+  }
+
+  clear() {
+    this.entries = [];
+    this.start = 0;
+  }
+
+  add(entry: Omit<TrafficEntry, "id" | "timestamp">) {
+    const captured: TrafficEntry = {
+      ...entry,
+      id: this.nextId++,
+      timestamp: Date.now(),
+      payload: serializePayload(entry.payload),
+    };
+
+    if (this.entries.length < this.size) {
+      this.entries.push(captured);
+    } else {
+      // overwrite the oldest entry
+      this.entries[this.start] = captured;
+      this.start = (this.start + 1) % this.size;
+    }
+
+    return captured;
+  }
+
+  query(filter: TrafficFilter = {}) {
+    const entries = [
+      ...this.entries.slice(this.start),
+      ...this.entries.slice(0, this.start),
+    ].filter(
+      (entry) =>
+        (filter.after === undefined || entry.id > filter.after) &&
+        (!filter.sessionId ||
+          entry.sessionId === filter.sessionId ||
+          entry.broadcast) &&
+        (!filter.type || `${entry.type}` === filter.type) &&
+        (!filter.direction || entry.direction === filter.direction),
+    );
+
+    return {
+      capturing: this.capturing,
+      entries: filter.limit > 0 ? entries.slice(-filter.limit) : entries,
+    };
+  }
+}
+
+// Make message payloads transferable over IPC and JSON
+export function serializePayload(payload: any) {
+  return payload instanceof Uint8Array
+    ? Array.from(payload)
+    : toSerializable(payload);
+}
+
+// Get (or create) the traffic buffer of a room
+export function getRoomTraffic(room: Room): TrafficBuffer {
+  const anyRoom = room as any;
+
+  if (!anyRoom._monitorTraffic) {
+    Object.defineProperty(anyRoom, "_monitorTraffic", {
+      value: new TrafficBuffer(),
+      enumerable: false,
+    });
+  }
+
+  return anyRoom._monitorTraffic;
+}
@@ -10,7 +10,11 @@ import {
   useMediaQuery,
 } from "@mui/material";
 
+import { AlertBanner } from "./components/AlertBanner";
+import { AuditLog } from "./components/AuditLog";
 import { CAppBar } from "./components/CAppBar";
+import { MetricsDashboard } from "./components/MetricsDashboard";
+import { Processes } from "./components/Processes";
 import { RoomInspect } from "./components/RoomInspect";
 import { RoomList } from "./components/RoomList";
 import { config } from "./config";
@@ -118,10 +122,16 @@ export function App() {
         {/* Show header based on config */}
         {layoutConfig.showHeader !== false && <CAppBar />}
 
+        {/* Firing alerts */}
+        <AlertBanner />
+
         {/* Main routes */}
         <div className={`layout-${layoutStyle}`}>
           <Route exact path="/" component={RoomList} />
           <Route path="/room/:roomId" component={RoomInspect} />
+          <Route path="/audit" component={AuditLog} />
+          <Route path="/metrics" component={MetricsDashboard} />
+          <Route path="/processes" component={Processes} />
 
           {/* Custom routes if any */}
           {customRoutes.map((route) => (
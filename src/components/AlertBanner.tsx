@@ -0,0 +1,101 @@
+import * as React from "react";
+
+import { fetchAlerts } from "../services";
+
+import { Alert, AlertTitle, Box } from "@mui/material";
+
+// fetch alerts every 10 seconds.
+const FETCH_ALERTS_INTERVAL = 10000;
+
+const SEVERITY_ORDER = ["critical", "warning", "info"];
+
+// MUI severity of each alert severity
+const SEVERITY_COLORS = {
+  critical: "error",
+  warning: "warning",
+  info: "info",
+} as const;
+
+interface FiringAlert {
+  rule: string;
+  severity: "info" | "warning" | "critical";
+  labels: Record<string, string>;
+  message: string;
+  state: "pending" | "firing";
+  firedAt?: number;
+}
+
+interface Props {}
+interface State {
+  alerts: FiringAlert[];
+}
+
+/**
+ * Lists firing alerts (when alert rules are configured)
+ */
+export class AlertBanner extends React.Component<Props, State> {
+  state: State = {
+    alerts: [],
+  };
+
+  fetchTimeout: number;
+
+  componentDidMount() {
+    this.fetchAlerts();
+  }
+
+  componentWillUnmount() {
+    clearTimeout(this.fetchTimeout);
+  }
+
+  async fetchAlerts() {
+    try {
+      const data = await fetchAlerts();
+
+      // no alert rules configured: nothing to show
+      if (!data.enabled) {
+        return;
+      }
+
+      this.setState({
+        alerts: data.alerts.filter((alert) => alert.state === "firing"),
+      });
+    } catch (err) {
+      console.error(err);
+    }
+
+    this.fetchTimeout = window.setTimeout(
+      () => this.fetchAlerts(),
+      FETCH_ALERTS_INTERVAL,
+    );
+  }
+
+  render() {
+    if (this.state.alerts.length === 0) {
+      return null;
+    }
+
+    const alerts = [...this.state.alerts].sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+    );
+
+    return (
+      <Alert
+        severity={SEVERITY_COLORS[alerts[0].severity]}
+        sx={{ borderRadius: 0 }}
+      >
+        <AlertTitle>
+          {alerts.length} active alert{alerts.length > 1 ? "s" : ""}
+        </AlertTitle>
+        {alerts.map((alert) => (
+          <Box key={`${alert.rule}:${JSON.stringify(alert.labels)}`}>
+            [{alert.severity}] {alert.message}
+            {alert.firedAt &&
+              ` (since ${new Date(alert.firedAt).toLocaleTimeString()})`}
+          </Box>
+        ))}
+      </Alert>
+    );
+  }
+}
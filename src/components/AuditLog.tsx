@@ -0,0 +1,219 @@
+import * as React from "react";
+
+import { AuditLogQuery, fetchAuditLog } from "../services";
+
+import {
+  Alert,
+  Box,
+  Card,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+
+const DEFAULT_PAGE_SIZE = 25;
+
+interface AuditEntry {
+  timestamp: number;
+  principal?: { id: string; role: string };
+  ip?: string;
+  roomId: string;
+  method: string;
+  args: any[];
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+interface Props {}
+interface State {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  roomId: string;
+  method: string;
+  principal: string;
+  success: "" | "true" | "false";
+  loading: boolean;
+  error?: string;
+}
+
+export class AuditLog extends React.Component<Props, State> {
+  state: State = {
+    entries: [],
+    total: 0,
+    page: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+    roomId: "",
+    method: "",
+    principal: "",
+    success: "",
+    loading: false,
+  };
+
+  componentDidMount() {
+    this.fetchAuditLog();
+  }
+
+  async fetchAuditLog() {
+    const { page, pageSize, roomId, method, principal, success } = this.state;
+
+    const query: AuditLogQuery = {
+      roomId,
+      method,
+      principal,
+      success: success ? success === "true" : undefined,
+      page: page + 1,
+      limit: pageSize,
+    };
+
+    this.setState({ loading: true });
+
+    try {
+      const data = await fetchAuditLog(query);
+      this.setState({
+        entries: data.entries,
+        total: data.pagination.total,
+        error: undefined,
+      });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+
+    this.setState({ loading: false });
+  }
+
+  handleFilterChange =
+    (field: "roomId" | "method" | "principal" | "success") => (e) => {
+      this.setState({ [field]: e.target.value, page: 0 } as any, () =>
+        this.fetchAuditLog(),
+      );
+    };
+
+  handlePaginationChange = ({ page, pageSize }) => {
+    this.setState({ page, pageSize }, () => this.fetchAuditLog());
+  };
+
+  render() {
+    const columns: GridColDef[] = [
+      {
+        field: "timestamp",
+        headerName: "time",
+        flex: 1,
+        valueFormatter: (params) => new Date(params.value).toLocaleString(),
+      },
+      {
+        field: "principal",
+        headerName: "user",
+        flex: 1,
+        valueGetter: (params) =>
+          params.row.principal
+            ? `${params.row.principal.id} (${params.row.principal.role})`
+            : "",
+      },
+      { field: "ip", headerName: "ip", flex: 1 },
+      { field: "roomId", headerName: "roomId", flex: 1 },
+      { field: "method", headerName: "method", flex: 1 },
+      {
+        field: "args",
+        headerName: "args",
+        flex: 2,
+        valueGetter: (params) => JSON.stringify(params.row.args),
+      },
+      {
+        field: "success",
+        headerName: "result",
+        flex: 2,
+        renderCell: (params) => (
+          <>
+            <Chip
+              size="small"
+              color={params.row.success ? "success" : "error"}
+              label={params.row.success ? "ok" : "failed"}
+              sx={{ marginRight: "6px" }}
+            />
+            {params.row.success
+              ? params.row.result !== undefined &&
+                JSON.stringify(params.row.result)
+              : params.row.error}
+          </>
+        ),
+      },
+    ];
+
+    const rows = this.state.entries.map((entry, index) => ({
+      id: `${entry.timestamp}-${this.state.page}-${index}`,
+      ...entry,
+    }));
+
+    return (
+      <div>
+        <Card sx={{ padding: 2 }}>
+          <Box sx={{ display: "flex", gap: 2 }}>
+            <TextField
+              size="small"
+              label="Room"
+              value={this.state.roomId}
+              onChange={this.handleFilterChange("roomId")}
+            />
+            <TextField
+              size="small"
+              label="Method"
+              value={this.state.method}
+              onChange={this.handleFilterChange("method")}
+            />
+            <TextField
+              size="small"
+              label="User"
+              value={this.state.principal}
+              onChange={this.handleFilterChange("principal")}
+            />
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel id="audit-log-result">Result</InputLabel>
+              <Select
+                labelId="audit-log-result"
+                label="Result"
+                value={this.state.success}
+                onChange={this.handleFilterChange("success")}
+              >
+                <MenuItem value="">any</MenuItem>
+                <MenuItem value="true">ok</MenuItem>
+                <MenuItem value="false">failed</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+        </Card>
+
+        {this.state.error && (
+          <Alert severity="error" sx={{ marginTop: "2px" }}>
+            {this.state.error}
+          </Alert>
+        )}
+
+        <Card style={{ marginTop: "2px" }}>
+          <DataGrid
+            columns={columns}
+            rows={rows}
+            rowCount={this.state.total}
+            loading={this.state.loading}
+            paginationMode="server"
+            paginationModel={{
+              page: this.state.page,
+              pageSize: this.state.pageSize,
+            }}
+            onPaginationModelChange={this.handlePaginationChange}
+            pageSizeOptions={[25, 50, 100]}
+            autoHeight
+            sx={{ overflow: "hidden" }}
+            disableRowSelectionOnClick
+          />
+        </Card>
+      </div>
+    );
+  }
+}
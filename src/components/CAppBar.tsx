@@ -1,5 +1,6 @@
 import * as React from "react";
-import { AppBar, Toolbar, Typography } from "@mui/material";
+import { Link } from "react-router-dom";
+import { AppBar, Button, Toolbar, Typography } from "@mui/material";
 
 export class CAppBar extends React.Component {
   state = {
@@ -23,6 +24,18 @@ export class CAppBar extends React.Component {
             >
               Colyseus Monitor v{process.env.npm_package_version}
             </Typography>
+            <Button color="inherit" component={Link} to="/">
+              Rooms
+            </Button>
+            <Button color="inherit" component={Link} to="/metrics">
+              Metrics
+            </Button>
+            <Button color="inherit" component={Link} to="/processes">
+              Processes
+            </Button>
+            <Button color="inherit" component={Link} to="/audit">
+              Audit
+            </Button>
           </Toolbar>
         </AppBar>
       </div>
@@ -0,0 +1,162 @@
+import * as React from "react";
+
+import ReactJson from "react18-json-view";
+
+import { CustomAction } from "../config";
+import { humanizeElapsedTime } from "../helpers/helpers";
+import { CustomActions } from "./CustomActions";
+
+import {
+  Box,
+  Chip,
+  Drawer,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Toolbar,
+  Typography,
+} from "@mui/material";
+
+import CloseIcon from "@mui/icons-material/Close";
+
+export interface ClientInfo {
+  sessionId: string;
+  // milliseconds since the client joined (unknown while reconnecting)
+  elapsedTime?: number;
+  state: "joining" | "joined" | "reconnecting" | "leaving" | "unknown";
+  ip?: string;
+  userData?: any;
+  auth?: any;
+  // stand-in of a replayed session (its auth didn't go through `onAuth()`)
+  replayed?: boolean;
+  messagesIn: number;
+  bytesIn: number;
+  messagesOut: number;
+  bytesOut: number;
+}
+
+// Chip color of each client state
+export const CLIENT_STATE_COLORS = {
+  joining: "info",
+  joined: "success",
+  reconnecting: "warning",
+  leaving: "default",
+  unknown: "default",
+} as const;
+
+function formatBytes(bytes: number) {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
+
+interface Props {
+  roomId: string;
+  client?: ClientInfo;
+  // custom client actions (if allowed)
+  actions?: CustomAction[];
+  onClose: () => void;
+}
+
+/**
+ * Drawer with all details of a client
+ */
+export class ClientDetails extends React.Component<Props> {
+  renderJson(title: string, value: any) {
+    return (
+      <Box sx={{ marginTop: 2 }}>
+        <Typography variant="subtitle2">{title}</Typography>
+        {value !== undefined && value !== null ? (
+          <ReactJson src={value} theme={"default"} collapsed={2} />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            (none)
+          </Typography>
+        )}
+      </Box>
+    );
+  }
+
+  render() {
+    const client = this.props.client;
+
+    return (
+      <Drawer anchor="right" open={!!client} onClose={this.props.onClose}>
+        {client && (
+          <Box sx={{ width: 420, padding: 2 }}>
+            <Toolbar disableGutters>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                Client {client.sessionId}
+              </Typography>
+              <IconButton aria-label="close" onClick={this.props.onClose}>
+                <CloseIcon />
+              </IconButton>
+            </Toolbar>
+
+            <Table size="small">
+              <TableBody>
+                <TableRow>
+                  <TableCell>State</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      color={CLIENT_STATE_COLORS[client.state]}
+                      label={client.state}
+                    />
+                    {client.replayed && (
+                      <Chip
+                        size="small"
+                        color="warning"
+                        label="replayed"
+                        sx={{ marginLeft: "6px" }}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>IP address</TableCell>
+                  <TableCell>{client.ip || "unknown"}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Connected for</TableCell>
+                  <TableCell>
+                    {client.elapsedTime !== undefined &&
+                    client.elapsedTime !== null
+                      ? humanizeElapsedTime(client.elapsedTime)
+                      : ""}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Messages in</TableCell>
+                  <TableCell>
+                    {client.messagesIn} ({formatBytes(client.bytesIn)})
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Messages out</TableCell>
+                  <TableCell>
+                    {client.messagesOut} ({formatBytes(client.bytesOut)})
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {this.props.actions?.length > 0 && (
+              <Box sx={{ marginTop: 2 }}>
+                <Typography variant="subtitle2">Actions</Typography>
+                <CustomActions
+                  roomId={this.props.roomId}
+                  sessionId={client.sessionId}
+                  actions={this.props.actions}
+                />
+              </Box>
+            )}
+
+            {this.renderJson("userData", client.userData)}
+            {this.renderJson("auth", client.auth)}
+          </Box>
+        )}
+      </Drawer>
+    );
+  }
+}
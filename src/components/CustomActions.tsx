@@ -0,0 +1,299 @@
+import * as React from "react";
+
+import ReactJson from "react18-json-view";
+
+import { CustomAction, CustomActionArgument } from "../config";
+import { executeClientAction, executeRoomAction } from "../services";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  Icon,
+  MenuItem,
+  Switch,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+
+type Step = "form" | "confirm" | "result";
+
+interface Props {
+  roomId?: string;
+  actions: CustomAction[];
+  // client the actions run on (client actions)
+  sessionId?: string;
+  // Run the actions differently (e.g. on several rooms)
+  onRun?: (action: CustomAction, args: any[]) => Promise<any>;
+  // Called once an action has run
+  onExecuted?: () => void;
+}
+interface State {
+  action?: CustomAction;
+  step?: Step;
+  // form values, as entered (parsed when running the action)
+  values: Record<string, any>;
+  errors: Record<string, string>;
+  running: boolean;
+  result?: { success: boolean; value: any };
+}
+
+function getDefaultValue(arg: CustomActionArgument) {
+  if (arg.default === undefined) {
+    return arg.type === "boolean" ? false : "";
+  } else if (arg.type === "json") {
+    return JSON.stringify(arg.default);
+  }
+  return arg.enum ? arg.default : String(arg.default);
+}
+
+// Parse an entered value (`undefined` if left empty)
+function parseValue(arg: CustomActionArgument, value: any) {
+  if (arg.type === "boolean" || arg.enum) {
+    return value;
+  } else if (value === "") {
+    return undefined;
+  } else if (arg.type === "number") {
+    const number = Number(value);
+    if (isNaN(number)) {
+      throw new Error("Expected a number");
+    }
+    return number;
+  } else if (arg.type === "json") {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      throw new Error("Invalid JSON");
+    }
+  }
+  return value;
+}
+
+/**
+ * Buttons running the configured custom actions of a room (or of a client),
+ * with their argument form, confirmation and result
+ */
+export class CustomActions extends React.Component<Props, State> {
+  state: State = {
+    values: {},
+    errors: {},
+    running: false,
+  };
+
+  openAction(action: CustomAction) {
+    const values = {};
+    action.args?.forEach((arg) => (values[arg.name] = getDefaultValue(arg)));
+
+    this.setState({ action, values, errors: {}, result: undefined }, () => {
+      if (action.args?.length) {
+        this.setState({ step: "form" });
+      } else if (action.confirmRequired) {
+        this.setState({ step: "confirm" });
+      } else {
+        this.runAction();
+      }
+    });
+  }
+
+  handleClose = () => {
+    if (!this.state.running) {
+      this.setState({ action: undefined, step: undefined });
+    }
+  };
+
+  // Parse the form values (`undefined` if any is invalid)
+  getArgs() {
+    const errors = {};
+
+    const args = (this.state.action.args || []).map((arg) => {
+      try {
+        const value = parseValue(arg, this.state.values[arg.name]);
+        if (value === undefined && arg.required) {
+          throw new Error("Required");
+        }
+        return value;
+      } catch (e) {
+        errors[arg.name] = e.message;
+      }
+    });
+
+    this.setState({ errors });
+
+    return Object.keys(errors).length === 0 ? args : undefined;
+  }
+
+  handleSubmit = () => {
+    if (!this.getArgs()) {
+      return;
+    }
+
+    if (this.state.action.confirmRequired) {
+      this.setState({ step: "confirm" });
+    } else {
+      this.runAction();
+    }
+  };
+
+  async runAction() {
+    const { action } = this.state;
+    const { roomId, sessionId } = this.props;
+    const args = this.getArgs() || [];
+
+    this.setState({ step: "result", running: true });
+
+    try {
+      const value = this.props.onRun
+        ? await this.props.onRun(action, args)
+        : sessionId
+          ? await executeClientAction(roomId, action.id, sessionId, ...args)
+          : await executeRoomAction(roomId, action.id, ...args);
+
+      this.setState({ result: { success: true, value } });
+      this.props.onExecuted?.();
+    } catch (err) {
+      this.setState({ result: { success: false, value: err.message } });
+    } finally {
+      this.setState({ running: false });
+    }
+  }
+
+  setValue(name: string, value: any) {
+    this.setState({ values: { ...this.state.values, [name]: value } });
+  }
+
+  renderField(arg: CustomActionArgument) {
+    const value = this.state.values[arg.name];
+    const error = this.state.errors[arg.name];
+
+    if (arg.type === "boolean") {
+      return (
+        <FormControlLabel
+          key={arg.name}
+          label={arg.name}
+          control={
+            <Switch
+              checked={!!value}
+              onChange={(e) => this.setValue(arg.name, e.target.checked)}
+            />
+          }
+        />
+      );
+    }
+
+    return (
+      <TextField
+        key={arg.name}
+        label={arg.name}
+        value={value}
+        select={!!arg.enum}
+        required={arg.required}
+        type={arg.type === "number" && !arg.enum ? "number" : "text"}
+        multiline={arg.type === "json"}
+        error={!!error}
+        helperText={error || arg.description}
+        onChange={(e) => this.setValue(arg.name, e.target.value)}
+        fullWidth
+        margin="dense"
+      >
+        {arg.enum?.map((option) => (
+          <MenuItem key={option} value={option}>
+            {option}
+          </MenuItem>
+        ))}
+      </TextField>
+    );
+  }
+
+  renderResult() {
+    const { result, running } = this.state;
+
+    if (running || !result) {
+      return <DialogContentText>Running...</DialogContentText>;
+    } else if (!result.success) {
+      return <Alert severity="error">{result.value}</Alert>;
+    }
+
+    return (
+      <>
+        <Alert severity="success">Action completed</Alert>
+        <Box sx={{ marginTop: 2 }}>
+          {result.value !== null && typeof result.value === "object" ? (
+            <ReactJson src={result.value} theme={"default"} collapsed={2} />
+          ) : (
+            <code>
+              {result.value === undefined
+                ? "(no result)"
+                : JSON.stringify(result.value)}
+            </code>
+          )}
+        </Box>
+      </>
+    );
+  }
+
+  render() {
+    const { action, step } = this.state;
+
+    return (
+      <>
+        {this.props.actions.map((action) => (
+          <Tooltip key={action.id} title={action.description || ""}>
+            <Button
+              variant="text"
+              startIcon={
+                action.icon ? <Icon>{action.icon}</Icon> : <PlayArrowIcon />
+              }
+              onClick={() => this.openAction(action)}
+            >
+              {action.name}
+            </Button>
+          </Tooltip>
+        ))}
+
+        <Dialog
+          open={!!action && !!step}
+          onClose={this.handleClose}
+          fullWidth
+          maxWidth="sm"
+        >
+          <DialogTitle>
+            {action?.name}
+            {this.props.sessionId && ` (client ${this.props.sessionId})`}
+          </DialogTitle>
+          <DialogContent>
+            {step === "form" && action.args.map((arg) => this.renderField(arg))}
+            {step === "confirm" && (
+              <DialogContentText>
+                Are you sure you want to run "{action.name}"?
+              </DialogContentText>
+            )}
+            {step === "result" && this.renderResult()}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={this.handleClose} disabled={this.state.running}>
+              {step === "result" ? "Close" : "Cancel"}
+            </Button>
+            {step === "form" && (
+              <Button onClick={this.handleSubmit}>
+                {action.confirmRequired ? "Next" : "Run"}
+              </Button>
+            )}
+            {step === "confirm" && (
+              <Button color="error" onClick={() => this.runAction()}>
+                Run
+              </Button>
+            )}
+          </DialogActions>
+        </Dialog>
+      </>
+    );
+  }
+}
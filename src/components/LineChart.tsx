@@ -0,0 +1,211 @@
+import * as React from "react";
+
+import { Box, Typography } from "@mui/material";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 44 };
+
+// Series colors (cycled)
+const COLORS = [
+  "#1976d2",
+  "#d32f2f",
+  "#388e3c",
+  "#f57c00",
+  "#7b1fa2",
+  "#0097a7",
+  "#5d4037",
+  "#c2185b",
+];
+
+export interface LineSeries {
+  label: string;
+  points: Array<{ x: number; y: number }>;
+}
+
+interface Props {
+  title: string;
+  series: LineSeries[];
+  // Fixed range of the x axis (timestamps)
+  from: number;
+  to: number;
+  // Fixed maximum of the y axis (e.g. 100 for percentages)
+  max?: number;
+  formatValue?: (value: number) => string;
+}
+interface State {
+  hover?: number;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Minimal SVG line chart of time series
+ */
+export class LineChart extends React.Component<Props, State> {
+  state: State = {};
+
+  scaleX = (x: number) => {
+    const { from, to } = this.props;
+    const width = WIDTH - PADDING.left - PADDING.right;
+    return PADDING.left + ((x - from) / Math.max(to - from, 1)) * width;
+  };
+
+  scaleY = (y: number, max: number) => {
+    const height = HEIGHT - PADDING.top - PADDING.bottom;
+    return PADDING.top + height - (y / max) * height;
+  };
+
+  handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const { from, to } = this.props;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (x - PADDING.left) / (WIDTH - PADDING.left - PADDING.right);
+
+    this.setState({
+      hover: ratio >= 0 && ratio <= 1 ? from + ratio * (to - from) : undefined,
+    });
+  };
+
+  // Values of each series closest to the hovered time
+  getHoverValues() {
+    const { hover } = this.state;
+
+    return this.props.series.map((series) => {
+      let closest: { x: number; y: number } | undefined;
+
+      series.points.forEach((point) => {
+        if (
+          !closest ||
+          Math.abs(point.x - hover) < Math.abs(closest.x - hover)
+        ) {
+          closest = point;
+        }
+      });
+
+      return closest;
+    });
+  }
+
+  render() {
+    const { title, series, from, to, formatValue = (v) => `${v}` } = this.props;
+
+    const highest = Math.max(
+      0,
+      ...series.flatMap((s) => s.points.map((point) => point.y)),
+    );
+    const max = this.props.max ?? (highest > 0 ? highest * 1.1 : 1);
+
+    const hoverValues =
+      this.state.hover !== undefined ? this.getHoverValues() : [];
+
+    return (
+      <Box>
+        <Typography variant="subtitle2">{title}</Typography>
+
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width="100%"
+          onMouseMove={this.handleMouseMove}
+          onMouseLeave={() => this.setState({ hover: undefined })}
+        >
+          {/* Axes */}
+          {[0, 0.5, 1].map((ratio) => (
+            <g key={ratio}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={this.scaleY(max * ratio, max)}
+                y2={this.scaleY(max * ratio, max)}
+                stroke="currentColor"
+                strokeOpacity={0.15}
+              />
+              <text
+                x={PADDING.left - 4}
+                y={this.scaleY(max * ratio, max) + 4}
+                fontSize={10}
+                textAnchor="end"
+                fill="currentColor"
+              >
+                {formatValue(max * ratio)}
+              </text>
+            </g>
+          ))}
+          <text
+            x={PADDING.left}
+            y={HEIGHT - 4}
+            fontSize={10}
+            fill="currentColor"
+          >
+            {formatTime(from)}
+          </text>
+          <text
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 4}
+            fontSize={10}
+            textAnchor="end"
+            fill="currentColor"
+          >
+            {formatTime(to)}
+          </text>
+
+          {/* Series */}
+          {series.map((s, index) => (
+            <polyline
+              key={s.label}
+              fill="none"
+              stroke={COLORS[index % COLORS.length]}
+              strokeWidth={1.5}
+              points={s.points
+                .map(
+                  (point) =>
+                    `${this.scaleX(point.x)},${this.scaleY(point.y, max)}`,
+                )
+                .join(" ")}
+            />
+          ))}
+
+          {/* Hover marker */}
+          {this.state.hover !== undefined && (
+            <line
+              x1={this.scaleX(this.state.hover)}
+              x2={this.scaleX(this.state.hover)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+              stroke="currentColor"
+              strokeOpacity={0.4}
+            />
+          )}
+        </svg>
+
+        {/* Legend (with hovered values) */}
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2, fontSize: 12 }}>
+          {series.map((s, index) => (
+            <Box key={s.label} sx={{ display: "flex", alignItems: "center" }}>
+              <Box
+                sx={{
+                  width: 10,
+                  height: 10,
+                  marginRight: "4px",
+                  backgroundColor: COLORS[index % COLORS.length],
+                }}
+              />
+              {s.label}
+              {hoverValues[index] && `: ${formatValue(hoverValues[index].y)}`}
+            </Box>
+          ))}
+          {hoverValues[0] && (
+            <Box sx={{ color: "text.secondary" }}>
+              {new Date(hoverValues[0].x).toLocaleTimeString()}
+            </Box>
+          )}
+        </Box>
+      </Box>
+    );
+  }
+}
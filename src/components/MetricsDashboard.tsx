@@ -0,0 +1,189 @@
+import * as React from "react";
+
+import { fetchMetricsHistory } from "../services";
+import { LineChart, LineSeries } from "./LineChart";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  Grid,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material";
+
+import RefreshIcon from "@mui/icons-material/Refresh";
+
+// Selectable time ranges (ms)
+const RANGES = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+};
+
+type Range = keyof typeof RANGES;
+
+// Refresh interval of the dashboard
+const REFRESH_INTERVAL = 10 * 1000;
+
+interface MetricsSample {
+  timestamp: number;
+  cpu: number;
+  memory: number;
+  totalMemory: number;
+  connections: number;
+  rooms: number;
+  ccu: Record<string, number>;
+}
+
+interface Props {}
+interface State {
+  range: Range;
+  from: number;
+  to: number;
+  samples: MetricsSample[];
+  error?: string;
+}
+
+export class MetricsDashboard extends React.Component<Props, State> {
+  state: State = {
+    range: "1h",
+    from: Date.now() - RANGES["1h"],
+    to: Date.now(),
+    samples: [],
+  };
+
+  refreshInterval: number;
+
+  componentDidMount() {
+    this.fetchMetricsHistory();
+    this.refreshInterval = window.setInterval(
+      () => this.fetchMetricsHistory(),
+      REFRESH_INTERVAL,
+    );
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.refreshInterval);
+  }
+
+  async fetchMetricsHistory() {
+    const to = Date.now();
+    const from = to - RANGES[this.state.range];
+
+    try {
+      const data = await fetchMetricsHistory({ from, to });
+      this.setState({ from, to, samples: data.samples, error: undefined });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  handleRangeChange = (e, range: Range) => {
+    if (range) {
+      this.setState({ range }, () => this.fetchMetricsHistory());
+    }
+  };
+
+  getSeries(
+    label: string,
+    getValue: (sample: MetricsSample) => number,
+  ): LineSeries {
+    return {
+      label,
+      points: this.state.samples.map((sample) => ({
+        x: sample.timestamp,
+        y: getValue(sample),
+      })),
+    };
+  }
+
+  render() {
+    const { from, to, samples } = this.state;
+
+    const roomTypes = Array.from(
+      new Set(samples.flatMap((sample) => Object.keys(sample.ccu))),
+    ).sort();
+
+    const formatInteger = (value: number) => `${Math.round(value)}`;
+
+    const charts = [
+      {
+        title: "CPU",
+        series: [this.getSeries("cpu", (s) => s.cpu)],
+        max: 100,
+        formatValue: (value: number) => `${value.toFixed(0)}%`,
+      },
+      {
+        title: "Memory",
+        series: [this.getSeries("used", (s) => s.memory)],
+        max: samples.length
+          ? Math.max(...samples.map((s) => s.totalMemory))
+          : undefined,
+        formatValue: (value: number) => `${value.toFixed(0)} MB`,
+      },
+      {
+        title: "Connections",
+        series: [this.getSeries("connections", (s) => s.connections)],
+        formatValue: formatInteger,
+      },
+      {
+        title: "Rooms",
+        series: [this.getSeries("rooms", (s) => s.rooms)],
+        formatValue: formatInteger,
+      },
+      {
+        title: "CCU by room type",
+        series: roomTypes.map((roomType) =>
+          this.getSeries(roomType, (s) => s.ccu[roomType] || 0),
+        ),
+        formatValue: formatInteger,
+      },
+    ];
+
+    return (
+      <div>
+        <Card sx={{ padding: 2 }}>
+          <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={this.state.range}
+              onChange={this.handleRangeChange}
+            >
+              {Object.keys(RANGES).map((range) => (
+                <ToggleButton key={range} value={range}>
+                  {range}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Button
+              startIcon={<RefreshIcon />}
+              onClick={() => this.fetchMetricsHistory()}
+            >
+              Refresh
+            </Button>
+          </Box>
+        </Card>
+
+        {this.state.error && (
+          <Alert severity="error" sx={{ marginTop: "2px" }}>
+            {this.state.error}
+          </Alert>
+        )}
+
+        <Grid container spacing={0.25} sx={{ marginTop: "2px" }}>
+          {charts.map((chart) => (
+            <Grid item xs={12} md={6} key={chart.title}>
+              <Card sx={{ padding: 2 }}>
+                <LineChart from={from} to={to} {...chart} />
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      </div>
+    );
+  }
+}
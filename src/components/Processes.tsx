@@ -0,0 +1,254 @@
+import * as React from "react";
+
+import { fetchProcesses, fetchRoomList } from "../services";
+import { humanizeElapsedTime } from "../helpers/helpers";
+
+import { Alert, Box, Button, Card, Chip, Typography } from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+
+import OpenInBrowserIcon from "@mui/icons-material/OpenInBrowser";
+
+// refresh processes every 5 seconds.
+const FETCH_PROCESSES_INTERVAL = 5000;
+
+interface ProcessEntry {
+  processId: string;
+  rooms: number;
+  ccu: number;
+  publicAddress?: string;
+  hostname?: string;
+  pid?: number;
+  cpu?: number;
+  memory?: { rss: number; heapUsed: number; heapTotal: number };
+  uptime?: number;
+  timestamp?: number;
+  stale: boolean;
+  current: boolean;
+}
+
+interface Props {}
+interface State {
+  processes: ProcessEntry[];
+  selected?: string;
+  rooms: any[];
+  error?: string;
+}
+
+function formatMegabytes(bytes?: number) {
+  return bytes !== undefined ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : "";
+}
+
+export class Processes extends React.Component<Props, State> {
+  state: State = {
+    processes: [],
+    rooms: [],
+  };
+
+  fetchInterval: number;
+
+  componentDidMount() {
+    this.fetchProcesses();
+    this.fetchInterval = window.setInterval(
+      () => this.fetchProcesses(),
+      FETCH_PROCESSES_INTERVAL,
+    );
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.fetchInterval);
+  }
+
+  async fetchProcesses() {
+    try {
+      const data = await fetchProcesses();
+      this.setState({ processes: data.processes, error: undefined });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+
+    if (this.state.selected) {
+      this.fetchRooms();
+    }
+  }
+
+  // Rooms of the selected process
+  async fetchRooms() {
+    const processId = this.state.selected;
+
+    try {
+      const data = await fetchRoomList({ filter: { processId } });
+
+      // discard responses for a previous selection
+      if (this.state.selected === processId) {
+        this.setState({ rooms: data.rooms });
+      }
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  selectProcess(processId: string) {
+    this.setState(
+      {
+        selected: this.state.selected === processId ? undefined : processId,
+        rooms: [],
+      },
+      () => this.state.selected && this.fetchRooms(),
+    );
+  }
+
+  inspectRoom(roomId: string) {
+    const history = (this.props as any).history;
+    history.push("/room/" + roomId);
+  }
+
+  render() {
+    const columns: GridColDef[] = [
+      {
+        field: "processId",
+        headerName: "processId",
+        flex: 1,
+        renderCell: (params) => (
+          <>
+            {params.row.processId}
+            {params.row.current && (
+              <Chip
+                size="small"
+                sx={{ marginLeft: "6px" }}
+                label="monitor"
+                title="Process serving this monitor"
+              />
+            )}
+          </>
+        ),
+      },
+      {
+        field: "host",
+        headerName: "host",
+        flex: 1,
+        valueGetter: (params) =>
+          params.row.hostname
+            ? `${params.row.hostname} (pid ${params.row.pid})`
+            : "",
+      },
+      { field: "publicAddress", headerName: "publicAddress", flex: 1 },
+      { field: "rooms", headerName: "rooms", type: "number", flex: 0.5 },
+      { field: "ccu", headerName: "ccu", type: "number", flex: 0.5 },
+      {
+        field: "cpu",
+        headerName: "cpu",
+        type: "number",
+        flex: 0.5,
+        valueFormatter: (params) =>
+          params.value !== undefined ? `${params.value} %` : "",
+      },
+      {
+        field: "memory",
+        headerName: "memory (rss)",
+        type: "number",
+        flex: 0.75,
+        valueGetter: (params) => params.row.memory?.rss,
+        valueFormatter: (params) => formatMegabytes(params.value),
+      },
+      {
+        field: "uptime",
+        headerName: "uptime",
+        flex: 0.75,
+        valueFormatter: (params) =>
+          params.value !== undefined
+            ? humanizeElapsedTime(params.value * 1000)
+            : "",
+      },
+      {
+        field: "stale",
+        headerName: "status",
+        flex: 0.5,
+        renderCell: (params) => (
+          <Chip
+            size="small"
+            color={params.row.stale ? "warning" : "success"}
+            label={params.row.stale ? "no report" : "ok"}
+            title={
+              params.row.timestamp
+                ? `Last report: ${new Date(params.row.timestamp).toLocaleString()}`
+                : "This process doesn't report its usage (see startProcessReporter())"
+            }
+          />
+        ),
+      },
+    ];
+
+    const roomColumns: GridColDef[] = [
+      { field: "roomId", headerName: "roomId", flex: 1 },
+      { field: "name", headerName: "name", flex: 1 },
+      { field: "clients", headerName: "clients", type: "number", flex: 0.5 },
+      { field: "maxClients", headerName: "maxClients", flex: 0.5 },
+      {
+        field: "locked",
+        headerName: "locked",
+        flex: 0.5,
+        valueFormatter: (params) => `${params.value}`,
+      },
+      {
+        field: "Inspect",
+        headerName: "",
+        flex: 0.5,
+        sortable: false,
+        renderCell: (params) => (
+          <Button
+            size="small"
+            startIcon={<OpenInBrowserIcon />}
+            onClick={() => this.inspectRoom(params.row.roomId)}
+          >
+            Inspect
+          </Button>
+        ),
+      },
+    ];
+
+    return (
+      <div>
+        {this.state.error && (
+          <Alert severity="error" sx={{ marginBottom: "2px" }}>
+            {this.state.error}
+          </Alert>
+        )}
+
+        <Card>
+          <DataGrid
+            columns={columns}
+            rows={this.state.processes.map((entry) => ({
+              id: entry.processId,
+              ...entry,
+            }))}
+            rowSelectionModel={this.state.selected ? [this.state.selected] : []}
+            onRowClick={(params) => this.selectProcess(params.row.processId)}
+            autoHeight
+            sx={{ overflow: "hidden", cursor: "pointer" }}
+            hideFooter
+          />
+        </Card>
+
+        {this.state.selected && (
+          <Card style={{ marginTop: "2px" }}>
+            <Box sx={{ padding: 2 }}>
+              <Typography variant="subtitle1">
+                Rooms of process {this.state.selected}
+              </Typography>
+            </Box>
+            <DataGrid
+              columns={roomColumns}
+              rows={this.state.rooms.map((room) => ({
+                id: room.roomId,
+                ...room,
+              }))}
+              autoHeight
+              sx={{ overflow: "hidden" }}
+              disableRowSelectionOnClick
+            />
+          </Card>
+        )}
+      </div>
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import * as React from "react";
+
+import { AccessControlOptions, CustomAction } from "../config";
+import { BatchRoomResult, batchRoomCall } from "../services";
+import { isAllowed } from "../helpers/helpers";
+import { CustomActions } from "./CustomActions";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+  Typography,
+} from "@mui/material";
+
+import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import LockIcon from "@mui/icons-material/Lock";
+import LockOpenIcon from "@mui/icons-material/LockOpen";
+import SendIcon from "@mui/icons-material/Send";
+
+interface Props {
+  roomIds: string[];
+  access?: AccessControlOptions;
+  actions?: CustomAction[];
+  // Called once an operation has run on the selected rooms
+  onDone: (method: string) => void;
+}
+interface State {
+  confirmDispose: boolean;
+  broadcastOpen: boolean;
+  broadcastType: string;
+  broadcastData: string;
+  broadcastError?: string;
+  running: boolean;
+  // results of the last operation
+  outcome?: { label: string; results: BatchRoomResult[] };
+  error?: string;
+}
+
+/**
+ * Operations on all rooms selected in the room list
+ */
+export class RoomBulkActions extends React.Component<Props, State> {
+  state: State = {
+    confirmDispose: false,
+    broadcastOpen: false,
+    broadcastType: "message_type",
+    broadcastData: "{}",
+    running: false,
+  };
+
+  async run(label: string, method: string, ...args: any[]) {
+    this.setState({ running: true, outcome: undefined, error: undefined });
+
+    try {
+      const { results } = await batchRoomCall(
+        this.props.roomIds,
+        method,
+        ...args,
+      );
+      this.setState({ outcome: { label, results } });
+      this.props.onDone(method);
+    } catch (err) {
+      this.setState({ error: err.message });
+    } finally {
+      this.setState({ running: false });
+    }
+  }
+
+  handleDispose = () => {
+    this.setState({ confirmDispose: false });
+    this.run("Dispose", "disconnect");
+  };
+
+  handleBroadcast = () => {
+    let data: any;
+
+    try {
+      data = JSON.parse(this.state.broadcastData);
+    } catch (e) {
+      return this.setState({ broadcastError: "Invalid JSON" });
+    }
+
+    this.setState({ broadcastOpen: false, broadcastError: undefined });
+    this.run("Broadcast", "broadcast", this.state.broadcastType, data);
+  };
+
+  // Custom actions are run on every selected room
+  runCustomAction = async (action: CustomAction, args: any[]) => {
+    const { results } = await batchRoomCall(
+      this.props.roomIds,
+      `customAction:${action.id}`,
+      ...args,
+    );
+    this.props.onDone(`customAction:${action.id}`);
+    return results;
+  };
+
+  renderOutcome() {
+    const { outcome } = this.state;
+    const failed = outcome.results.filter((result) => !result.success);
+
+    return (
+      <Alert
+        severity={failed.length > 0 ? "warning" : "success"}
+        onClose={() => this.setState({ outcome: undefined })}
+        sx={{ mt: 1 }}
+      >
+        {outcome.label}: {outcome.results.length - failed.length} succeeded
+        {failed.length > 0 && `, ${failed.length} failed`}
+        {failed.map((result) => (
+          <Typography key={result.roomId} variant="body2">
+            {result.roomId}: {result.error}
+          </Typography>
+        ))}
+      </Alert>
+    );
+  }
+
+  render() {
+    const { access, actions, roomIds } = this.props;
+    const disabled = roomIds.length === 0 || this.state.running;
+
+    return (
+      <Box sx={{ padding: "8px" }}>
+        <Box
+          sx={{
+            display: "flex",
+            gap: 1,
+            alignItems: "center",
+            flexWrap: "wrap",
+          }}
+        >
+          <Typography variant="body2" sx={{ marginRight: 1 }}>
+            {roomIds.length} selected
+          </Typography>
+
+          {isAllowed(access, "allowRoomActions") && (
+            <>
+              <Button
+                variant="text"
+                startIcon={<LockIcon />}
+                disabled={disabled}
+                onClick={() => this.run("Lock", "lock")}
+              >
+                Lock
+              </Button>
+              <Button
+                variant="text"
+                startIcon={<LockOpenIcon />}
+                disabled={disabled}
+                onClick={() => this.run("Unlock", "unlock")}
+              >
+                Unlock
+              </Button>
+            </>
+          )}
+
+          {isAllowed(access, "allowClientMessages") && (
+            <Button
+              variant="text"
+              startIcon={<SendIcon />}
+              disabled={disabled}
+              onClick={() => this.setState({ broadcastOpen: true })}
+            >
+              Broadcast
+            </Button>
+          )}
+
+          {isAllowed(access, "allowRoomActions") &&
+            actions?.length > 0 &&
+            roomIds.length > 0 && (
+              <CustomActions actions={actions} onRun={this.runCustomAction} />
+            )}
+
+          {isAllowed(access, "allowRoomDisposal") && (
+            <Button
+              variant="text"
+              color="error"
+              startIcon={<DeleteForeverIcon />}
+              disabled={disabled}
+              onClick={() => this.setState({ confirmDispose: true })}
+            >
+              Dispose
+            </Button>
+          )}
+        </Box>
+
+        {this.state.outcome && this.renderOutcome()}
+
+        {this.state.error && (
+          <Alert
+            severity="error"
+            onClose={() => this.setState({ error: undefined })}
+            sx={{ mt: 1 }}
+          >
+            {this.state.error}
+          </Alert>
+        )}
+
+        <Dialog
+          open={this.state.confirmDispose}
+          onClose={() => this.setState({ confirmDispose: false })}
+        >
+          <DialogTitle>Dispose rooms</DialogTitle>
+          <DialogContent>
+            <DialogContentText>
+              Are you sure you want to dispose {roomIds.length} rooms? Their
+              clients will be disconnected.
+            </DialogContentText>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => this.setState({ confirmDispose: false })}>
+              Cancel
+            </Button>
+            <Button color="error" onClick={this.handleDispose}>
+              Dispose
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        <Dialog
+          open={this.state.broadcastOpen}
+          onClose={() => this.setState({ broadcastOpen: false })}
+          fullWidth
+          maxWidth="sm"
+        >
+          <DialogTitle>Broadcast to {roomIds.length} rooms</DialogTitle>
+          <DialogContent>
+            <TextField
+              label="Message type"
+              value={this.state.broadcastType}
+              onChange={(e) => this.setState({ broadcastType: e.target.value })}
+              fullWidth
+              margin="dense"
+            />
+            <TextField
+              label="Message (JSON)"
+              value={this.state.broadcastData}
+              onChange={(e) => this.setState({ broadcastData: e.target.value })}
+              error={!!this.state.broadcastError}
+              helperText={this.state.broadcastError}
+              multiline
+              fullWidth
+              margin="dense"
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => this.setState({ broadcastOpen: false })}>
+              Cancel
+            </Button>
+            <Button onClick={this.handleBroadcast}>Send</Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    );
+  }
+}
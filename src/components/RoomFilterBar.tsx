@@ -0,0 +1,294 @@
+import * as React from "react";
+
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material";
+
+import AddIcon from "@mui/icons-material/Add";
+import ClearIcon from "@mui/icons-material/Clear";
+import SearchIcon from "@mui/icons-material/Search";
+
+// Operators available in the builder (see src-backend/query.ts)
+const OPERATORS = {
+  $eq: "=",
+  $ne: "≠",
+  $gt: ">",
+  $gte: "≥",
+  $lt: "<",
+  $lte: "≤",
+  $in: "in",
+  $nin: "not in",
+  $regex: "matches",
+  $exists: "exists",
+};
+
+type Operator = keyof typeof OPERATORS;
+
+// Suggested fields (any dotted path into the room listing works)
+const FIELDS = [
+  "roomId",
+  "name",
+  "clients",
+  "maxClients",
+  "locked",
+  "private",
+  "processId",
+  "metadata.",
+];
+
+interface Condition {
+  field: string;
+  operator: Operator;
+  value: string;
+}
+
+interface Props {
+  error?: string;
+  onChange: (filter?: Record<string, any>) => void;
+}
+interface State {
+  search: string;
+  combinator: "$and" | "$or";
+  conditions: Condition[];
+}
+
+// Parse a typed value as JSON (numbers, booleans, null), or keep it as string
+function parseValue(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compose room list queries from a text search and a list of conditions
+ */
+export class RoomFilterBar extends React.Component<Props, State> {
+  state: State = {
+    search: "",
+    combinator: "$and",
+    conditions: [],
+  };
+
+  buildFilter() {
+    const queries: Array<Record<string, any>> = this.state.conditions
+      .filter((condition) => condition.field)
+      .map(({ field, operator, value }) => {
+        switch (operator) {
+          case "$in":
+          case "$nin":
+            return {
+              [field]: {
+                [operator]: value.split(",").map((v) => parseValue(v.trim())),
+              },
+            };
+
+          case "$regex":
+            return { [field]: { $regex: value, $options: "i" } };
+
+          case "$exists":
+            return { [field]: { $exists: value !== "false" } };
+
+          default:
+            return { [field]: { [operator]: parseValue(value) } };
+        }
+      });
+
+    const filters: Array<Record<string, any>> = [];
+
+    if (queries.length > 0) {
+      filters.push(
+        queries.length === 1
+          ? queries[0]
+          : { [this.state.combinator]: queries },
+      );
+    }
+
+    // Text search on room id and name
+    if (this.state.search) {
+      const $regex = escapeRegExp(this.state.search);
+      filters.push({
+        $or: [
+          { roomId: { $regex, $options: "i" } },
+          { name: { $regex, $options: "i" } },
+        ],
+      });
+    }
+
+    if (filters.length === 0) {
+      return undefined;
+    }
+
+    return filters.length === 1 ? filters[0] : { $and: filters };
+  }
+
+  apply = () => {
+    this.props.onChange(this.buildFilter());
+  };
+
+  clear = () => {
+    this.setState({ search: "", conditions: [] }, () =>
+      this.props.onChange(undefined),
+    );
+  };
+
+  addCondition = () => {
+    this.setState({
+      conditions: [
+        ...this.state.conditions,
+        { field: "", operator: "$eq", value: "" },
+      ],
+    });
+  };
+
+  removeCondition(index: number) {
+    const conditions = this.state.conditions.filter((_, i) => i !== index);
+    this.setState({ conditions }, this.apply);
+  }
+
+  updateCondition(index: number, changes: Partial<Condition>) {
+    const conditions = this.state.conditions.map((condition, i) =>
+      i === index ? { ...condition, ...changes } : condition,
+    );
+    this.setState({ conditions });
+  }
+
+  handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      this.apply();
+    }
+  };
+
+  render() {
+    return (
+      <Box sx={{ padding: "8px" }} onKeyDown={this.handleKeyDown}>
+        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <TextField
+            size="small"
+            label="Search rooms"
+            value={this.state.search}
+            onChange={(e) => this.setState({ search: e.target.value })}
+            sx={{ flexGrow: 1 }}
+          />
+          <Button startIcon={<AddIcon />} onClick={this.addCondition}>
+            Condition
+          </Button>
+          <Button
+            variant="contained"
+            disableElevation
+            startIcon={<SearchIcon />}
+            onClick={this.apply}
+          >
+            Apply
+          </Button>
+          <Button color="inherit" onClick={this.clear}>
+            Clear
+          </Button>
+        </Box>
+
+        {this.state.conditions.length > 1 && (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={this.state.combinator}
+            onChange={(e, combinator) =>
+              combinator && this.setState({ combinator })
+            }
+            sx={{ marginTop: 1 }}
+          >
+            <ToggleButton value="$and">Match all</ToggleButton>
+            <ToggleButton value="$or">Match any</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+
+        {this.state.conditions.map((condition, index) => (
+          <Box
+            key={index}
+            sx={{ display: "flex", gap: 1, alignItems: "center", marginTop: 1 }}
+          >
+            <TextField
+              size="small"
+              label="Field"
+              value={condition.field}
+              onChange={(e) =>
+                this.updateCondition(index, { field: e.target.value })
+              }
+              inputProps={{ list: "room-filter-fields" }}
+            />
+            <Select
+              size="small"
+              value={condition.operator}
+              onChange={(e) =>
+                this.updateCondition(index, {
+                  operator: e.target.value as Operator,
+                })
+              }
+            >
+              {Object.entries(OPERATORS).map(([operator, label]) => (
+                <MenuItem key={operator} value={operator}>
+                  {label}
+                </MenuItem>
+              ))}
+            </Select>
+            {condition.operator === "$exists" ? (
+              <Select
+                size="small"
+                value={condition.value === "false" ? "false" : "true"}
+                onChange={(e) =>
+                  this.updateCondition(index, { value: e.target.value })
+                }
+              >
+                <MenuItem value="true">yes</MenuItem>
+                <MenuItem value="false">no</MenuItem>
+              </Select>
+            ) : (
+              <TextField
+                size="small"
+                label={
+                  condition.operator === "$in" || condition.operator === "$nin"
+                    ? "Values (comma-separated)"
+                    : "Value"
+                }
+                value={condition.value}
+                onChange={(e) =>
+                  this.updateCondition(index, { value: e.target.value })
+                }
+                sx={{ flexGrow: 1 }}
+              />
+            )}
+            <IconButton
+              aria-label="remove condition"
+              onClick={() => this.removeCondition(index)}
+            >
+              <ClearIcon />
+            </IconButton>
+          </Box>
+        ))}
+
+        <datalist id="room-filter-fields">
+          {FIELDS.map((field) => (
+            <option key={field} value={field} />
+          ))}
+        </datalist>
+
+        {this.props.error && (
+          <Box sx={{ color: "error.main", marginTop: 1 }}>
+            {this.props.error}
+          </Box>
+        )}
+      </Box>
+    );
+  }
+}
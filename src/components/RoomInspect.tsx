@@ -1,10 +1,16 @@
 import * as React from "react";
 import { JsonEditor } from "react-json-edit";
 
-import ReactJson from "react18-json-view";
 import "react18-json-view/src/style.css";
 
-import { fetchRoomData, remoteRoomCall } from "../services";
+import { AccessControlOptions, config, CustomAction } from "../config";
+import {
+  fetchRoomData,
+  RealtimeMessage,
+  remoteRoomCall,
+  subscribeRealtime,
+  updateRoomState,
+} from "../services";
 
 import {
   AppBar,
@@ -34,24 +40,72 @@ import { TabContext, TabList, TabPanel } from "@mui/lab";
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
 import DoDisturbOnIcon from "@mui/icons-material/DoDisturbOn";
-import LockIcon from "@mui/icons-material/Lock";
-import LockOpenIcon from "@mui/icons-material/LockOpen";
+import InfoIcon from "@mui/icons-material/Info";
 import SendIcon from "@mui/icons-material/Send";
-import { valueFormatter } from "../helpers/helpers";
+import { isAllowed, valueFormatter } from "../helpers/helpers";
+import {
+  CLIENT_STATE_COLORS,
+  ClientDetails,
+  ClientInfo,
+} from "./ClientDetails";
+import { CustomActions } from "./CustomActions";
+import { RoomListing } from "./RoomListing";
+import { RoomLogs } from "./RoomLogs";
+import { RoomMetrics, RoomStats } from "./RoomMetrics";
+import { RoomPluginTab } from "./RoomPluginTab";
+import { RoomTraffic } from "./RoomTraffic";
+import { SessionRecorder } from "./SessionRecorder";
+import { StateSnapshots } from "./StateSnapshots";
+import { StateTransfer } from "./StateTransfer";
+import { StateSchema, StateViewer } from "./StateViewer";
 
 // fetch room data every 5 seconds.
 const FETCH_DATA_INTERVAL = 5000;
 const SEND_TYPE_CACHE = "$$colyseus$type";
 const SEND_DATA_CACHE = "$$colyseus$data";
 
+const BUILT_IN_TABS: Record<string, string> = {
+  clients: "Clients",
+  state: "State",
+  logs: "Logs",
+  metrics: "Metrics",
+  traffic: "Traffic",
+};
+
+// Tabs in configured order ("custom" expands to `customTabs`)
+function getInspectTabs(): Array<{ value: string; label: string }> {
+  const { tabs = [], customTabs = [] } = config.roomInspect;
+
+  return tabs.flatMap((tab) =>
+    tab === "custom"
+      ? customTabs.map((custom) => ({
+          value: `custom:${custom.id}`,
+          label: custom.label,
+        }))
+      : BUILT_IN_TABS[tab]
+        ? [{ value: tab, label: BUILT_IN_TABS[tab] }]
+        : [],
+  );
+}
+
 interface Props {}
 interface State {
   roomId?: string;
   state: any;
-  clients: Array<{ sessionId: string; elapsedTime: number }>;
+  stateSchema?: StateSchema;
+  // latest inspect data, as given to plugins
+  inspectData?: any;
+  clients: ClientInfo[];
+  detailsSessionId?: string;
   maxClients: number;
   stateSize: number;
+  stats?: RoomStats;
   locked: boolean;
+  private?: boolean;
+  metadata?: any;
+  access?: AccessControlOptions;
+  actions?: CustomAction[];
+  clientActions?: CustomAction[];
   currentTab: string;
   sendDialogTitle: string;
   sendDialogOpen: boolean;
@@ -68,7 +122,7 @@ export class RoomInspect extends React.Component<Props, State> {
     maxClients: 0,
     stateSize: 0,
     locked: false,
-    currentTab: "1",
+    currentTab: getInspectTabs()[0]?.value ?? "",
     sendDialogTitle: "",
     sendDialogOpen: false,
     sendToClient: undefined,
@@ -77,18 +131,26 @@ export class RoomInspect extends React.Component<Props, State> {
   };
 
   updateDataInterval: number;
+  unsubscribeRealtime?: () => void;
+  isUnmounted = false;
 
   componentDidMount() {
     this.fetchRoomData();
+    this.connectRealtime();
   }
 
   fetchRoomData() {
     const roomId = (this.props as any).match.params.roomId;
 
     fetchRoomData(roomId)
-      .then((data) => this.setState(data))
+      .then((data) => this.setState({ ...data, inspectData: data }))
       .catch((err) => console.error(err));
 
+    // updates are pushed by the server while the realtime channel is open
+    if (this.unsubscribeRealtime) {
+      return;
+    }
+
     // re-set fetch interval
     clearInterval(this.updateDataInterval);
     this.updateDataInterval = window.setInterval(
@@ -97,6 +159,45 @@ export class RoomInspect extends React.Component<Props, State> {
     );
   }
 
+  async connectRealtime() {
+    const roomId = (this.props as any).match.params.roomId;
+
+    try {
+      this.unsubscribeRealtime = await subscribeRealtime(
+        [
+          { topic: "roomStateUpdates", roomId },
+          { topic: "clientUpdates", roomId },
+        ],
+        this.onRealtimeMessage,
+        () => {
+          // connection lost: fall back to polling
+          this.unsubscribeRealtime = undefined;
+          this.fetchRoomData();
+        },
+      );
+    } catch (err) {
+      console.error(err);
+    }
+
+    if (this.isUnmounted) {
+      this.unsubscribeRealtime?.();
+    } else if (this.unsubscribeRealtime) {
+      clearInterval(this.updateDataInterval);
+    }
+  }
+
+  onRealtimeMessage = (message: RealtimeMessage) => {
+    if (message.error) {
+      console.error(message.error);
+    } else {
+      // pushes only carry the updated part of the inspect data
+      this.setState((prev) => ({
+        ...message.data,
+        inspectData: { ...prev.inspectData, ...message.data },
+      }));
+    }
+  };
+
   roomCall(method: string, ...args: any[]) {
     const roomId = (this.props as any).match.params.roomId;
 
@@ -106,7 +207,9 @@ export class RoomInspect extends React.Component<Props, State> {
   }
 
   componentWillUnmount() {
+    this.isUnmounted = true;
     clearInterval(this.updateDataInterval);
+    this.unsubscribeRealtime?.();
   }
 
   sendMessage(sessionId?: string) {
@@ -170,6 +273,24 @@ export class RoomInspect extends React.Component<Props, State> {
     promise.then(() => this.handleCloseSend());
   };
 
+  canEditState() {
+    return (
+      config.roomInspect.allowStateEdit === true &&
+      isAllowed(this.state.access, "allowStateModification")
+    );
+  }
+
+  handleStateEdit = ({ newValue, indexOrName, parentPath }) => {
+    const roomId = (this.props as any).match.params.roomId;
+
+    /**
+     * `room._updateRoomState` has been added via ext/Room.ts
+     */
+    updateRoomState(roomId, [...parentPath, indexOrName], newValue)
+      .catch((err) => console.error(err))
+      .then(() => this.fetchRoomData());
+  };
+
   goBack() {
     window.history.back();
   }
@@ -192,28 +313,58 @@ export class RoomInspect extends React.Component<Props, State> {
         valueFormatter: valueFormatter.elapsedTime,
         sortComparator: gridNumberComparator,
       } as GridColDef,
+      {
+        field: "state",
+        headerName: "state",
+        flex: 0.5,
+        renderCell: (param) => (
+          <Chip
+            size="small"
+            color={CLIENT_STATE_COLORS[param.value] || "default"}
+            label={param.value}
+          />
+        ),
+      },
+      {
+        field: "ip",
+        headerName: "ip",
+        flex: 0.75,
+      },
       {
         field: "actions",
         headerName: "actions",
-        flex: 1,
+        flex: 1.5,
         renderCell: (param) => {
           return (
             <>
               <Button
                 variant="text"
-                startIcon={<SendIcon />}
-                onClick={this.sendMessage.bind(this, param.id)}
+                startIcon={<InfoIcon />}
+                onClick={() =>
+                  this.setState({ detailsSessionId: `${param.id}` })
+                }
               >
-                Send
-              </Button>
-              <Button
-                variant="text"
-                color="error"
-                startIcon={<DoDisturbOnIcon />}
-                onClick={this.disconnectClient.bind(this, param.id)}
-              >
-                Disconnect
+                Details
               </Button>
+              {isAllowed(this.state.access, "allowClientMessages") && (
+                <Button
+                  variant="text"
+                  startIcon={<SendIcon />}
+                  onClick={this.sendMessage.bind(this, param.id)}
+                >
+                  Send
+                </Button>
+              )}
+              {isAllowed(this.state.access, "allowRoomActions") && (
+                <Button
+                  variant="text"
+                  color="error"
+                  startIcon={<DoDisturbOnIcon />}
+                  onClick={this.disconnectClient.bind(this, param.id)}
+                >
+                  Disconnect
+                </Button>
+              )}
             </>
           );
         },
@@ -224,6 +375,8 @@ export class RoomInspect extends React.Component<Props, State> {
         id: client.sessionId,
         sessionId: client.sessionId,
         elapsedTime: client.elapsedTime,
+        state: client.state,
+        ip: client.ip,
         actions: client.sessionId,
       };
     });
@@ -250,8 +403,14 @@ export class RoomInspect extends React.Component<Props, State> {
             <TableHead>
               <TableRow>
                 <TableCell align={"center"}>
-                  {this.state.locked ? <LockIcon /> : <LockOpenIcon />}
-                  {this.state.locked ? "Locked" : "Unlocked"}
+                  <RoomListing
+                    roomId={(this.props as any).match.params.roomId}
+                    locked={this.state.locked}
+                    isPrivate={this.state.private}
+                    metadata={this.state.metadata}
+                    access={this.state.access}
+                    onChange={() => this.fetchRoomData()}
+                  />
                 </TableCell>
 
                 <TableCell align={"center"}>
@@ -274,26 +433,49 @@ export class RoomInspect extends React.Component<Props, State> {
                   />
                 </TableCell>
 
-                <TableCell align={"center"}>
-                  <Button
-                    variant="text"
-                    startIcon={<SendIcon />}
-                    onClick={this.sendMessage.bind(this, undefined)}
-                  >
-                    Broadcast
-                  </Button>
-                </TableCell>
-
-                <TableCell align={"center"}>
-                  <Button
-                    variant="text"
-                    color="error"
-                    startIcon={<DeleteForeverIcon />}
-                    onClick={this.disposeRoom.bind(this)}
-                  >
-                    Dispose room
-                  </Button>
-                </TableCell>
+                {isAllowed(this.state.access, "allowStateModification") && (
+                  <TableCell align={"center"}>
+                    <SessionRecorder
+                      roomId={(this.props as any).match.params.roomId}
+                    />
+                  </TableCell>
+                )}
+
+                {isAllowed(this.state.access, "allowRoomActions") &&
+                  this.state.actions?.length > 0 && (
+                    <TableCell align={"center"}>
+                      <CustomActions
+                        roomId={(this.props as any).match.params.roomId}
+                        actions={this.state.actions}
+                        onExecuted={() => this.fetchRoomData()}
+                      />
+                    </TableCell>
+                  )}
+
+                {isAllowed(this.state.access, "allowClientMessages") && (
+                  <TableCell align={"center"}>
+                    <Button
+                      variant="text"
+                      startIcon={<SendIcon />}
+                      onClick={this.sendMessage.bind(this, undefined)}
+                    >
+                      Broadcast
+                    </Button>
+                  </TableCell>
+                )}
+
+                {isAllowed(this.state.access, "allowRoomDisposal") && (
+                  <TableCell align={"center"}>
+                    <Button
+                      variant="text"
+                      color="error"
+                      startIcon={<DeleteForeverIcon />}
+                      onClick={this.disposeRoom.bind(this)}
+                    >
+                      Dispose room
+                    </Button>
+                  </TableCell>
+                )}
               </TableRow>
             </TableHead>
           </Table>
@@ -306,11 +488,12 @@ export class RoomInspect extends React.Component<Props, State> {
               aria-label="lab API tabs example"
               variant={"fullWidth"}
             >
-              <Tab label="Clients" value="1" />
-              <Tab label="State" value="2" />
+              {getInspectTabs().map((tab) => (
+                <Tab key={tab.value} label={tab.label} value={tab.value} />
+              ))}
             </TabList>
           </Box>
-          <TabPanel value="1">
+          <TabPanel value="clients">
             <DataGrid
               columns={client_columns}
               rows={client_rows}
@@ -321,11 +504,56 @@ export class RoomInspect extends React.Component<Props, State> {
               hideFooterSelectedRowCount
             />
           </TabPanel>
-          <TabPanel value="2">
-            <ReactJson src={this.state.state} theme={"default"} />
+          <TabPanel value="state">
+            <StateTransfer
+              roomId={(this.props as any).match.params.roomId}
+              access={this.state.access}
+              onImport={() => this.fetchRoomData()}
+            />
+            <StateSnapshots roomId={(this.props as any).match.params.roomId} />
+            <StateViewer
+              state={this.state.state}
+              schema={this.state.stateSchema}
+              editable={this.canEditState()}
+              onEdit={this.handleStateEdit}
+            />
           </TabPanel>
+          <TabPanel value="logs">
+            <RoomLogs roomId={(this.props as any).match.params.roomId} />
+          </TabPanel>
+          <TabPanel value="metrics">
+            <RoomMetrics stats={this.state.stats} />
+          </TabPanel>
+          <TabPanel value="traffic">
+            <RoomTraffic
+              roomId={(this.props as any).match.params.roomId}
+              clients={this.state.clients.map((client) => client.sessionId)}
+            />
+          </TabPanel>
+          {config.roomInspect.customTabs?.map((custom) => (
+            <TabPanel key={custom.id} value={`custom:${custom.id}`}>
+              <RoomPluginTab
+                component={custom.component}
+                roomId={(this.props as any).match.params.roomId}
+                inspectData={this.state.inspectData}
+              />
+            </TabPanel>
+          ))}
         </TabContext>
 
+        <ClientDetails
+          roomId={(this.props as any).match.params.roomId}
+          actions={
+            isAllowed(this.state.access, "allowRoomActions")
+              ? this.state.clientActions
+              : undefined
+          }
+          client={this.state.clients.find(
+            (client) => client.sessionId === this.state.detailsSessionId,
+          )}
+          onClose={() => this.setState({ detailsSessionId: undefined })}
+        />
+
         <Dialog
           open={this.state.sendDialogOpen}
           onClose={this.handleCloseSend}
@@ -1,6 +1,12 @@
 import * as React from "react";
 import type { MonitorOptions } from "../../";
-import { fetchRoomList, remoteRoomCall } from "../services";
+import { AccessControlOptions, CustomAction } from "../config";
+import {
+  fetchRoomList,
+  remoteRoomCall,
+  RealtimeMessage,
+  subscribeRealtime,
+} from "../services";
 
 import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
 import OpenInBrowserIcon from "@mui/icons-material/OpenInBrowser";
@@ -24,7 +30,14 @@ import {
   Typography,
 } from "@mui/material";
 
-import { ExtractStringNames, valueFormatter } from "../helpers/helpers";
+import {
+  ExtractStringNames,
+  isAllowed,
+  valueFormatter,
+} from "../helpers/helpers";
+import { RoomBulkActions } from "./RoomBulkActions";
+import { RoomFilterBar } from "./RoomFilterBar";
+import { SessionReplayButton } from "./SessionRecorder";
 
 const UPDATE_ROOM_LIST_INTERVAL = 5000;
 const NO_ACTIVE_ROOMS_ROOM_ID = "No active rooms.";
@@ -38,19 +51,33 @@ const sortComparator: {
   clients: gridNumberComparator,
   maxClients: gridNumberComparator,
   elapsedTime: gridDateComparator,
+  messageRate: gridNumberComparator,
+  broadcastRate: gridNumberComparator,
+  sendRate: gridNumberComparator,
+  patchRate: gridNumberComparator,
+  patchBytesRate: gridNumberComparator,
 };
 
 export class RoomList extends React.Component {
   state = {
-    selected: [1],
+    selected: [] as string[],
     rooms: [],
     connections: 0,
     cpu: 0,
     memory: { totalMemMb: 0, usedMemMb: 0 },
     columns: [],
+    access: undefined as AccessControlOptions | undefined,
+    actions: undefined as { room?: CustomAction[] } | undefined,
+    principal: undefined as { id: string; role: string } | undefined,
+    views: [] as Array<{ name: string; label: string; description?: string }>,
+    view: undefined as string | undefined,
+    filter: undefined as Record<string, any> | undefined,
+    filterError: undefined as string | undefined,
   };
 
   updateRoomListInterval: number;
+  unsubscribeRealtime?: () => void;
+  isUnmounted = false;
 
   isSelected = (index) => {
     return this.state.selected.indexOf(index) !== -1;
@@ -61,29 +88,108 @@ export class RoomList extends React.Component {
   }
 
   componentWillUnmount(): void {
+    this.isUnmounted = true;
     clearInterval(this.updateRoomListInterval);
+    this.unsubscribeRealtime?.();
   }
 
   async fetchRoomList() {
+    let data: any;
+
     try {
-      this.setState(await fetchRoomList());
+      data = await fetchRoomList({
+        view: this.state.view,
+        filter: this.state.filter,
+      });
+      this.setState({ ...data, filterError: undefined });
     } catch (err) {
       console.error(err);
+      this.setState({ filterError: err.message });
     }
 
     clearInterval(this.updateRoomListInterval);
 
+    // Updates are pushed by the server while the realtime channel is open
+    if (
+      this.unsubscribeRealtime ||
+      (data?.realtime?.enabled && (await this.connectRealtime()))
+    ) {
+      return;
+    }
+
     this.updateRoomListInterval = window.setInterval(() => {
       this.fetchRoomList();
     }, UPDATE_ROOM_LIST_INTERVAL);
   }
 
+  async connectRealtime() {
+    try {
+      this.unsubscribeRealtime = await subscribeRealtime(
+        [
+          {
+            topic: "roomListUpdates",
+            params: { view: this.state.view, filter: this.state.filter },
+          },
+          { topic: "serverMetrics" },
+        ],
+        this.onRealtimeMessage,
+        () => {
+          // Connection lost: fall back to polling
+          this.unsubscribeRealtime = undefined;
+          this.fetchRoomList();
+        },
+      );
+    } catch (err) {
+      console.error(err);
+    }
+
+    if (this.isUnmounted) {
+      this.unsubscribeRealtime?.();
+    }
+
+    return this.unsubscribeRealtime !== undefined;
+  }
+
+  onRealtimeMessage = (message: RealtimeMessage) => {
+    if (message.error) {
+      console.error(message.error);
+    } else if (message.topic === "roomListUpdates") {
+      this.setState(message.data);
+    } else if (message.topic === "serverMetrics") {
+      this.setState({ cpu: message.data.cpu, memory: message.data.memory });
+    }
+  };
+
+  updateQuery(query: { view?: string; filter?: Record<string, any> }) {
+    // re-subscribe with the new query
+    this.unsubscribeRealtime?.();
+    this.unsubscribeRealtime = undefined;
+
+    this.setState(query, () => this.fetchRoomList());
+  }
+
+  selectView(view?: string) {
+    this.updateQuery({ view });
+  }
+
+  handleFilterChange = (filter?: Record<string, any>) => {
+    this.updateQuery({ filter });
+  };
+
   handleRowSelection = (selectedRows) => {
     this.setState({
       selected: selectedRows,
     });
   };
 
+  handleBulkDone = (method: string) => {
+    // disposed rooms can't stay selected
+    if (method === "disconnect") {
+      this.setState({ selected: [] });
+    }
+    this.fetchRoomList();
+  };
+
   inspectRoom(roomId) {
     const history = (this.props as any).history;
     history.push("/room/" + roomId);
@@ -184,6 +290,10 @@ export class RoomList extends React.Component {
     //
     // "Dispose" action column
     //
+    if (!isAllowed(this.state.access, "allowRoomDisposal")) {
+      return data;
+    }
+
     data.push({
       field: "Dispose",
       headerName: "", // Dispose
@@ -253,6 +363,11 @@ export class RoomList extends React.Component {
         slots={{
           noRowsOverlay: () => <></>,
         }}
+        checkboxSelection
+        rowSelectionModel={this.state.selected}
+        onRowSelectionModelChange={this.handleRowSelection}
+        isRowSelectable={(params) => params.id !== NO_ACTIVE_ROOMS_ROOM_ID}
+        keepNonExistentRowsSelected
         disableRowSelectionOnClick
         // hideFooter
         // hideFooterPagination
@@ -305,11 +420,63 @@ export class RoomList extends React.Component {
                       label={`${this.state.memory.usedMemMb} MB`}
                     />
                   </TableCell>
+                  {isAllowed(this.state.access, "allowStateModification") && (
+                    <TableCell align={"center"}>
+                      <SessionReplayButton
+                        onReplay={(roomId) => this.inspectRoom(roomId)}
+                      />
+                    </TableCell>
+                  )}
+                  {this.state.principal && (
+                    <TableCell align={"center"}>
+                      {this.state.principal.id}
+                      <Chip
+                        sx={{ marginLeft: "6px" }}
+                        size="small"
+                        color="secondary"
+                        label={this.state.principal.role}
+                      />
+                    </TableCell>
+                  )}
                 </TableRow>
               </TableHead>
             </Table>
           </TableContainer>
         </Card>
+        <Card style={{ marginTop: "2px" }}>
+          <RoomFilterBar
+            error={this.state.filterError}
+            onChange={this.handleFilterChange}
+          />
+        </Card>
+        {this.state.views.length > 0 && (
+          <Card style={{ marginTop: "2px", padding: "8px" }}>
+            <Chip
+              sx={{ margin: "2px" }}
+              label="All rooms"
+              color={this.state.view === undefined ? "primary" : "default"}
+              onClick={() => this.selectView(undefined)}
+            />
+            {this.state.views.map((view) => (
+              <Chip
+                key={view.name}
+                sx={{ margin: "2px" }}
+                label={view.label}
+                title={view.description}
+                color={this.state.view === view.name ? "primary" : "default"}
+                onClick={() => this.selectView(view.name)}
+              />
+            ))}
+          </Card>
+        )}
+        <Card style={{ marginTop: "2px" }}>
+          <RoomBulkActions
+            roomIds={this.state.selected}
+            access={this.state.access}
+            actions={this.state.actions?.room}
+            onDone={this.handleBulkDone}
+          />
+        </Card>
         <Card style={{ marginTop: "2px" }}>
           {this.generateRoomListDataGrid()}
         </Card>
@@ -0,0 +1,154 @@
+import * as React from "react";
+import { JsonEditor } from "react-json-edit";
+
+import { AccessControlOptions } from "../config";
+import { remoteRoomCall } from "../services";
+import { isAllowed } from "../helpers/helpers";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+} from "@mui/material";
+
+import DataObjectIcon from "@mui/icons-material/DataObject";
+import LockIcon from "@mui/icons-material/Lock";
+import LockOpenIcon from "@mui/icons-material/LockOpen";
+
+interface Props {
+  roomId: string;
+  locked: boolean;
+  isPrivate?: boolean;
+  metadata?: any;
+  access?: AccessControlOptions;
+  // Called once the listing has changed
+  onChange: () => void;
+}
+interface State {
+  metadataOpen: boolean;
+  // metadata being edited
+  metadata: any;
+  error?: string;
+}
+
+/**
+ * Lock, visibility and metadata of the room (as listed by the matchmaker)
+ */
+export class RoomListing extends React.Component<Props, State> {
+  state: State = {
+    metadataOpen: false,
+    metadata: {},
+  };
+
+  async update(method: string, value: any) {
+    try {
+      await remoteRoomCall(this.props.roomId, method, value);
+      this.setState({ error: undefined });
+      this.props.onChange();
+      return true;
+    } catch (err) {
+      this.setState({ error: err.message });
+      return false;
+    }
+  }
+
+  openMetadata = () => {
+    this.setState({
+      metadataOpen: true,
+      metadata: { ...this.props.metadata },
+      error: undefined,
+    });
+  };
+
+  updateMetadata = (changes) => {
+    // the editor keeps its own copy (see `updateSendData()` of RoomInspect)
+    this.state.metadata = changes;
+  };
+
+  handleSaveMetadata = async () => {
+    if (await this.update("_setMetadata", this.state.metadata)) {
+      this.setState({ metadataOpen: false });
+    }
+  };
+
+  render() {
+    const { locked, isPrivate } = this.props;
+    const allowed = isAllowed(this.props.access, "allowRoomActions");
+
+    return (
+      <Box
+        sx={{
+          display: "flex",
+          gap: 1,
+          alignItems: "center",
+          justifyContent: "center",
+        }}
+      >
+        <Tooltip title={this.state.metadataOpen ? "" : this.state.error || ""}>
+          <Button
+            variant="text"
+            color={this.state.error ? "error" : "inherit"}
+            startIcon={locked ? <LockIcon /> : <LockOpenIcon />}
+            disabled={!allowed}
+            onClick={() => this.update("_setLocked", !locked)}
+          >
+            {locked ? "Locked" : "Unlocked"}
+          </Button>
+        </Tooltip>
+
+        <FormControlLabel
+          label="Private"
+          control={
+            <Switch
+              size="small"
+              checked={!!isPrivate}
+              disabled={!allowed}
+              onChange={(e) => this.update("_setPrivate", e.target.checked)}
+            />
+          }
+        />
+
+        <Button
+          variant="text"
+          startIcon={<DataObjectIcon />}
+          onClick={this.openMetadata}
+        >
+          Metadata
+        </Button>
+
+        <Dialog
+          open={this.state.metadataOpen}
+          onClose={() => this.setState({ metadataOpen: false })}
+          fullWidth
+          maxWidth="sm"
+        >
+          <DialogTitle>Room metadata</DialogTitle>
+          <DialogContent>
+            <JsonEditor
+              value={this.state.metadata}
+              propagateChanges={this.updateMetadata}
+            />
+            {this.state.error && (
+              <Alert severity="error" sx={{ mt: 1 }}>
+                {this.state.error}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => this.setState({ metadataOpen: false })}>
+              {allowed ? "Cancel" : "Close"}
+            </Button>
+            {allowed && <Button onClick={this.handleSaveMetadata}>Save</Button>}
+          </DialogActions>
+        </Dialog>
+      </Box>
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import * as React from "react";
+
+import { fetchRoomLogs } from "../services";
+
+import {
+  Box,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+
+// fetch new log entries every 2 seconds.
+const FETCH_LOGS_INTERVAL = 2000;
+
+// maximum number of entries kept on screen.
+const MAX_LOG_ENTRIES = 1000;
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const LOG_LEVEL_COLORS = {
+  debug: "default",
+  info: "info",
+  warn: "warning",
+  error: "error",
+} as const;
+
+interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+  data?: any;
+}
+
+interface Props {
+  roomId: string;
+}
+interface State {
+  logs: LogEntry[];
+  level: LogLevel;
+  search: string;
+  follow: boolean;
+}
+
+export class RoomLogs extends React.Component<Props, State> {
+  state: State = {
+    logs: [],
+    level: "debug",
+    search: "",
+    follow: true,
+  };
+
+  fetchLogsInterval: number;
+  containerRef = React.createRef<HTMLDivElement>();
+
+  componentDidMount() {
+    this.fetchLogs();
+    this.fetchLogsInterval = window.setInterval(
+      () => this.fetchLogs(),
+      FETCH_LOGS_INTERVAL,
+    );
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.fetchLogsInterval);
+  }
+
+  componentDidUpdate(prevProps: Props, prevState: State) {
+    // keep the latest entry in view while following
+    const container = this.containerRef.current;
+    if (this.state.follow && prevState.logs !== this.state.logs && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }
+
+  async fetchLogs() {
+    const { logs, level } = this.state;
+    const lastEntry = logs[logs.length - 1];
+
+    try {
+      const entries: LogEntry[] = await fetchRoomLogs(this.props.roomId, {
+        level,
+        since: lastEntry?.timestamp,
+      });
+
+      this.setState((state) => {
+        // discard responses for a previous level filter
+        if (state.level !== level) {
+          return null;
+        }
+
+        // `since` is inclusive: skip entries already received
+        const lastId = state.logs[state.logs.length - 1]?.id ?? 0;
+        const newEntries = entries.filter((entry) => entry.id > lastId);
+
+        return newEntries.length > 0
+          ? { logs: [...state.logs, ...newEntries].slice(-MAX_LOG_ENTRIES) }
+          : null;
+      });
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  handleLevelChange = (e) => {
+    this.setState({ level: e.target.value, logs: [] }, () => this.fetchLogs());
+  };
+
+  handleSearchChange = (e) => {
+    this.setState({ search: e.target.value });
+  };
+
+  handleFollowChange = (e) => {
+    this.setState({ follow: e.target.checked });
+  };
+
+  getFilteredLogs() {
+    const search = this.state.search.toLowerCase();
+
+    if (!search) {
+      return this.state.logs;
+    }
+
+    return this.state.logs.filter(
+      (entry) =>
+        entry.message.toLowerCase().includes(search) ||
+        (entry.data !== undefined &&
+          JSON.stringify(entry.data).toLowerCase().includes(search)),
+    );
+  }
+
+  render() {
+    return (
+      <Box>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center", mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel id="room-logs-level">Level</InputLabel>
+            <Select
+              labelId="room-logs-level"
+              label="Level"
+              value={this.state.level}
+              onChange={this.handleLevelChange}
+            >
+              {LOG_LEVELS.map((level) => (
+                <MenuItem key={level} value={level}>
+                  {level}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            size="small"
+            label="Filter"
+            value={this.state.search}
+            onChange={this.handleSearchChange}
+            sx={{ flexGrow: 1 }}
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={this.state.follow}
+                onChange={this.handleFollowChange}
+              />
+            }
+            label="Follow"
+          />
+        </Box>
+
+        <TableContainer
+          component={Paper}
+          ref={this.containerRef}
+          sx={{ maxHeight: 480 }}
+        >
+          <Table stickyHeader size="small" aria-label="room logs">
+            <TableHead>
+              <TableRow>
+                <TableCell>Time</TableCell>
+                <TableCell>Level</TableCell>
+                <TableCell>Message</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {this.getFilteredLogs().map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={entry.level}
+                      color={LOG_LEVEL_COLORS[entry.level]}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: "monospace" }}>
+                    {entry.message}
+                    {entry.data !== undefined && (
+                      <Box
+                        component="pre"
+                        sx={{ m: 0, whiteSpace: "pre-wrap" }}
+                      >
+                        {JSON.stringify(entry.data, null, 2)}
+                      </Box>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import * as React from "react";
+
+import { LineChart, LineSeries } from "./LineChart";
+
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+
+// maximum number of samples charted (as received with room updates)
+const MAX_SAMPLES = 120;
+
+interface Counter {
+  total: number;
+  rate: number;
+}
+
+export interface RoomStats {
+  window: number;
+  messagesIn: Counter;
+  messagesInByType: { [type: string]: Counter };
+  broadcasts: Counter;
+  directSends: Counter;
+  patches: Counter;
+  patchBytes: Counter & { average: number };
+}
+
+interface Sample {
+  timestamp: number;
+  messagesIn: number;
+  broadcasts: number;
+  directSends: number;
+  patches: number;
+}
+
+interface Props {
+  stats?: RoomStats;
+}
+interface State {
+  samples: Sample[];
+}
+
+export class RoomMetrics extends React.Component<Props, State> {
+  state: State = {
+    samples: [],
+  };
+
+  componentDidMount() {
+    this.addSample();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.stats !== this.props.stats) {
+      this.addSample();
+    }
+  }
+
+  addSample() {
+    const { stats } = this.props;
+    if (!stats) return;
+
+    const sample: Sample = {
+      timestamp: Date.now(),
+      messagesIn: stats.messagesIn.rate,
+      broadcasts: stats.broadcasts.rate,
+      directSends: stats.directSends.rate,
+      patches: stats.patches.rate,
+    };
+
+    this.setState({
+      samples: [...this.state.samples, sample].slice(-MAX_SAMPLES),
+    });
+  }
+
+  getSeries(label: string, field: keyof Sample): LineSeries {
+    return {
+      label,
+      points: this.state.samples.map((sample) => ({
+        x: sample.timestamp,
+        y: sample[field],
+      })),
+    };
+  }
+
+  render() {
+    const { stats } = this.props;
+
+    if (!stats) {
+      return <Typography>No metrics available for this room.</Typography>;
+    }
+
+    const { samples } = this.state;
+    const counters: Array<[string, Counter, string?]> = [
+      ["Incoming messages", stats.messagesIn],
+      ["Broadcasts", stats.broadcasts],
+      ["Direct sends", stats.directSends],
+      ["State patches", stats.patches],
+      ["Patch bytes", stats.patchBytes, `${stats.patchBytes.average} B avg.`],
+    ];
+
+    return (
+      <Box>
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell></TableCell>
+                <TableCell align="right">total</TableCell>
+                <TableCell align="right">
+                  per second (last {stats.window}s)
+                </TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {counters.map(([label, counter, note]) => (
+                <TableRow key={label}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell align="right">{counter.total}</TableCell>
+                  <TableCell align="right">{counter.rate}</TableCell>
+                  <TableCell>{note}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {samples.length > 1 && (
+          <Paper sx={{ padding: 2, marginTop: 2 }}>
+            <LineChart
+              title="Rates (per second)"
+              from={samples[0].timestamp}
+              to={samples[samples.length - 1].timestamp}
+              series={[
+                this.getSeries("incoming messages", "messagesIn"),
+                this.getSeries("broadcasts", "broadcasts"),
+                this.getSeries("direct sends", "directSends"),
+                this.getSeries("patches", "patches"),
+              ]}
+              formatValue={(value) => value.toFixed(1)}
+            />
+          </Paper>
+        )}
+
+        <Typography variant="subtitle2" sx={{ marginTop: 2 }}>
+          Incoming messages by type
+        </Typography>
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>type</TableCell>
+                <TableCell align="right">total</TableCell>
+                <TableCell align="right">per second</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {Object.entries(stats.messagesInByType)
+                .sort(([, a], [, b]) => b.total - a.total)
+                .map(([type, counter]) => (
+                  <TableRow key={type}>
+                    <TableCell>{type}</TableCell>
+                    <TableCell align="right">{counter.total}</TableCell>
+                    <TableCell align="right">{counter.rate}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import * as React from "react";
+
+import { createRoomApiClient, getMonitorPlugin } from "../plugins";
+
+import { Alert } from "@mui/material";
+
+interface Props {
+  // id of the registered plugin
+  component: string;
+  roomId: string;
+  inspectData: any;
+}
+interface State {
+  error?: string;
+}
+
+/**
+ * Custom tab of the room inspector, rendered by a registered plugin
+ */
+export class RoomPluginTab extends React.Component<Props, State> {
+  state: State = {};
+
+  api = createRoomApiClient(this.props.roomId);
+
+  // errors of the plugin must not break the inspector
+  static getDerivedStateFromError(err: Error) {
+    return { error: err.message };
+  }
+
+  componentDidCatch(err: Error) {
+    console.error(`Plugin "${this.props.component}" failed:`, err);
+  }
+
+  render() {
+    const Plugin = getMonitorPlugin(this.props.component);
+
+    if (!Plugin) {
+      return (
+        <Alert severity="warning">
+          Plugin "{this.props.component}" is not registered.
+        </Alert>
+      );
+    } else if (this.state.error) {
+      return (
+        <Alert
+          severity="error"
+          onClose={() => this.setState({ error: undefined })}
+        >
+          Plugin "{this.props.component}" failed: {this.state.error}
+        </Alert>
+      );
+    }
+
+    return (
+      <Plugin
+        roomId={this.props.roomId}
+        inspectData={this.props.inspectData}
+        api={this.api}
+      />
+    );
+  }
+}
@@ -0,0 +1,278 @@
+import * as React from "react";
+
+import {
+  clearRoomTraffic,
+  fetchRoomTraffic,
+  setTrafficCapture,
+} from "../services";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+
+import PauseIcon from "@mui/icons-material/Pause";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+
+// fetch new messages every second.
+const FETCH_TRAFFIC_INTERVAL = 1000;
+
+// maximum number of messages kept on screen.
+const MAX_TRAFFIC_ENTRIES = 1000;
+
+interface TrafficEntry {
+  id: number;
+  timestamp: number;
+  direction: "in" | "out";
+  type?: string | number;
+  sessionId?: string;
+  broadcast?: boolean;
+  payload?: any;
+  size?: number;
+}
+
+interface Props {
+  roomId: string;
+  // sessionIds of connected clients (filter options)
+  clients: string[];
+}
+interface State {
+  entries: TrafficEntry[];
+  capturing: boolean;
+  paused: boolean;
+  sessionId: string;
+  type: string;
+  error?: string;
+}
+
+/**
+ * Live tail of the messages exchanged by the room (once capture is enabled)
+ */
+export class RoomTraffic extends React.Component<Props, State> {
+  state: State = {
+    entries: [],
+    capturing: false,
+    paused: false,
+    sessionId: "",
+    type: "",
+  };
+
+  fetchTrafficInterval: number;
+  containerRef = React.createRef<HTMLDivElement>();
+
+  componentDidMount() {
+    this.fetchTraffic();
+    this.fetchTrafficInterval = window.setInterval(
+      () => !this.state.paused && this.fetchTraffic(),
+      FETCH_TRAFFIC_INTERVAL,
+    );
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.fetchTrafficInterval);
+  }
+
+  componentDidUpdate(prevProps: Props, prevState: State) {
+    // keep the latest message in view
+    const container = this.containerRef.current;
+    if (prevState.entries !== this.state.entries && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }
+
+  async fetchTraffic() {
+    const lastId = this.state.entries[this.state.entries.length - 1]?.id;
+
+    try {
+      const data = await fetchRoomTraffic(this.props.roomId, { after: lastId });
+
+      this.setState((state) => {
+        // skip entries already received (e.g. overlapping requests)
+        const stateLastId = state.entries[state.entries.length - 1]?.id ?? 0;
+        const newEntries: TrafficEntry[] = data.entries.filter(
+          (entry) => entry.id > stateLastId,
+        );
+
+        return {
+          capturing: data.capturing,
+          error: undefined,
+          entries:
+            newEntries.length > 0
+              ? [...state.entries, ...newEntries].slice(-MAX_TRAFFIC_ENTRIES)
+              : state.entries,
+        };
+      });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  handleCaptureChange = async (e) => {
+    const capturing = e.target.checked;
+
+    try {
+      const data = await setTrafficCapture(this.props.roomId, capturing);
+      this.setState({ capturing: data.capturing, error: undefined });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  handleClear = async () => {
+    try {
+      await clearRoomTraffic(this.props.roomId);
+      this.setState({ entries: [] });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  togglePaused = () => {
+    this.setState({ paused: !this.state.paused });
+  };
+
+  getFilteredEntries() {
+    const { sessionId, type } = this.state;
+
+    return this.state.entries.filter(
+      (entry) =>
+        (!sessionId || entry.sessionId === sessionId || entry.broadcast) &&
+        (!type || `${entry.type}`.includes(type)),
+    );
+  }
+
+  render() {
+    return (
+      <Box>
+        {this.state.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {this.state.error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center", mb: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={this.state.capturing}
+                onChange={this.handleCaptureChange}
+              />
+            }
+            label="Capture"
+          />
+
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="room-traffic-client">Client</InputLabel>
+            <Select
+              labelId="room-traffic-client"
+              label="Client"
+              value={this.state.sessionId}
+              onChange={(e) => this.setState({ sessionId: e.target.value })}
+            >
+              <MenuItem value="">All clients</MenuItem>
+              {this.props.clients.map((sessionId) => (
+                <MenuItem key={sessionId} value={sessionId}>
+                  {sessionId}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            size="small"
+            label="Message type"
+            value={this.state.type}
+            onChange={(e) => this.setState({ type: e.target.value })}
+            sx={{ flexGrow: 1 }}
+          />
+
+          <Button
+            variant="text"
+            startIcon={this.state.paused ? <PlayArrowIcon /> : <PauseIcon />}
+            onClick={this.togglePaused}
+          >
+            {this.state.paused ? "Resume" : "Pause"}
+          </Button>
+
+          <Button variant="text" color="error" onClick={this.handleClear}>
+            Clear
+          </Button>
+        </Box>
+
+        {!this.state.capturing && this.state.entries.length === 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Enable capture to record the messages exchanged by this room.
+          </Alert>
+        )}
+
+        <TableContainer
+          component={Paper}
+          ref={this.containerRef}
+          sx={{ maxHeight: 480 }}
+        >
+          <Table stickyHeader size="small" aria-label="room traffic">
+            <TableHead>
+              <TableRow>
+                <TableCell>Time</TableCell>
+                <TableCell>Direction</TableCell>
+                <TableCell>Client</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell>Payload</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {this.getFilteredEntries().map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={entry.direction}
+                      color={entry.direction === "in" ? "info" : "success"}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {entry.broadcast ? "(broadcast)" : entry.sessionId}
+                  </TableCell>
+                  <TableCell>{entry.type}</TableCell>
+                  <TableCell align="right">
+                    {entry.size !== undefined ? `${entry.size} B` : ""}
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: "monospace" }}>
+                    {entry.payload !== undefined && (
+                      <Box
+                        component="pre"
+                        sx={{ m: 0, whiteSpace: "pre-wrap" }}
+                      >
+                        {JSON.stringify(entry.payload, null, 2)}
+                      </Box>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+    );
+  }
+}
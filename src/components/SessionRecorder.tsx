@@ -0,0 +1,190 @@
+import * as React from "react";
+
+import {
+  exportRecording,
+  fetchRecordingStatus,
+  replaySession,
+  setRecording,
+} from "../services";
+import { downloadFile } from "../helpers/helpers";
+
+import { Button, Chip, Tooltip } from "@mui/material";
+
+import DownloadIcon from "@mui/icons-material/Download";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+import ReplayIcon from "@mui/icons-material/Replay";
+import StopIcon from "@mui/icons-material/Stop";
+
+// refresh the recording status every 2 seconds (while recording).
+const FETCH_STATUS_INTERVAL = 2000;
+
+interface RecordingStatus {
+  recording: boolean;
+  startedAt?: number;
+  endedAt?: number;
+  events: number;
+  truncated: boolean;
+}
+
+interface RecorderProps {
+  roomId: string;
+}
+interface RecorderState {
+  status?: RecordingStatus;
+  error?: string;
+}
+
+/**
+ * Start/stop recording the room's session, and download the recording
+ */
+export class SessionRecorder extends React.Component<
+  RecorderProps,
+  RecorderState
+> {
+  state: RecorderState = {};
+
+  fetchStatusInterval: number;
+
+  componentDidMount() {
+    this.fetchStatus();
+    this.fetchStatusInterval = window.setInterval(
+      () => this.state.status?.recording && this.fetchStatus(),
+      FETCH_STATUS_INTERVAL,
+    );
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.fetchStatusInterval);
+  }
+
+  async fetchStatus() {
+    try {
+      const status = await fetchRecordingStatus(this.props.roomId);
+      this.setState({ status, error: undefined });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  toggleRecording = async () => {
+    try {
+      const status = await setRecording(
+        this.props.roomId,
+        !this.state.status?.recording,
+      );
+      this.setState({ status, error: undefined });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  downloadRecording = async () => {
+    try {
+      const recording = await exportRecording(this.props.roomId);
+      downloadFile(
+        `session-${recording.roomName}-${recording.roomId}-${recording.startedAt}.json`,
+        recording,
+      );
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  render() {
+    const status = this.state.status;
+
+    return (
+      <>
+        <Tooltip title={this.state.error || ""}>
+          <Button
+            variant="text"
+            color={status?.recording ? "error" : "primary"}
+            startIcon={
+              status?.recording ? <StopIcon /> : <FiberManualRecordIcon />
+            }
+            onClick={this.toggleRecording}
+          >
+            {status?.recording ? "Stop recording" : "Record session"}
+          </Button>
+        </Tooltip>
+
+        {status?.startedAt && (
+          <Chip
+            size="small"
+            color={status.truncated ? "warning" : "default"}
+            label={`${status.events} events${status.truncated ? " (truncated)" : ""}`}
+          />
+        )}
+
+        {status?.startedAt && !status.recording && (
+          <Button
+            variant="text"
+            startIcon={<DownloadIcon />}
+            onClick={this.downloadRecording}
+          >
+            Download
+          </Button>
+        )}
+      </>
+    );
+  }
+}
+
+interface ReplayProps {
+  // Called with the id of the room the session is replayed into
+  onReplay: (roomId: string) => void;
+}
+interface ReplayState {
+  error?: string;
+}
+
+/**
+ * Upload a recorded session, and replay it into a new room
+ */
+export class SessionReplayButton extends React.Component<
+  ReplayProps,
+  ReplayState
+> {
+  state: ReplayState = {};
+
+  inputRef = React.createRef<HTMLInputElement>();
+
+  handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const recording = JSON.parse(await file.text());
+      const room = await replaySession(recording);
+      this.props.onReplay(room.roomId);
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  render() {
+    return (
+      <Tooltip title={this.state.error || "Replay a recorded session"}>
+        <Button
+          variant="text"
+          color={this.state.error ? "error" : "primary"}
+          startIcon={<ReplayIcon />}
+          onClick={() => this.inputRef.current?.click()}
+        >
+          Replay session
+          <input
+            ref={this.inputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={this.handleFile}
+          />
+        </Button>
+      </Tooltip>
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import * as React from "react";
+
+import {
+  deleteStateSnapshot,
+  diffStateSnapshots,
+  fetchStateSnapshots,
+  SnapshotRef,
+  takeStateSnapshot,
+} from "../services";
+
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+
+import CameraAltIcon from "@mui/icons-material/CameraAlt";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+
+const DIFF_COLORS = {
+  added: "success",
+  removed: "error",
+  changed: "warning",
+} as const;
+
+interface Snapshot {
+  id: number;
+  name: string;
+  timestamp: number;
+}
+
+interface DiffEntry {
+  path: string[];
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+}
+
+interface Props {
+  roomId: string;
+}
+interface State {
+  snapshots: Snapshot[];
+  name: string;
+  from: SnapshotRef | "";
+  to: SnapshotRef;
+  diff?: { entries: DiffEntry[]; truncated: boolean };
+  error?: string;
+}
+
+function formatValue(value: any) {
+  return value === undefined ? "" : JSON.stringify(value);
+}
+
+/**
+ * Capture state snapshots, and compare them with each other (or the live state)
+ */
+export class StateSnapshots extends React.Component<Props, State> {
+  state: State = {
+    snapshots: [],
+    name: "",
+    from: "",
+    to: "live",
+  };
+
+  componentDidMount() {
+    this.fetchSnapshots();
+  }
+
+  async fetchSnapshots() {
+    try {
+      this.setState({
+        snapshots: await fetchStateSnapshots(this.props.roomId),
+      });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  takeSnapshot = async () => {
+    try {
+      const snapshot: Snapshot = await takeStateSnapshot(
+        this.props.roomId,
+        this.state.name || undefined,
+      );
+      this.setState({ name: "", from: snapshot.id, error: undefined });
+      this.fetchSnapshots();
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  async deleteSnapshot(id: number) {
+    try {
+      const snapshots = await deleteStateSnapshot(this.props.roomId, id);
+      this.setState({
+        snapshots,
+        from: this.state.from === id ? "" : this.state.from,
+        to: this.state.to === id ? "live" : this.state.to,
+        diff: undefined,
+      });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  }
+
+  compare = async () => {
+    const { from, to } = this.state;
+    if (from === "") return;
+
+    try {
+      this.setState({
+        diff: await diffStateSnapshots(this.props.roomId, from, to),
+        error: undefined,
+      });
+    } catch (err) {
+      this.setState({ error: err.message });
+    }
+  };
+
+  renderSnapshotSelect(
+    label: string,
+    value: SnapshotRef | "",
+    onChange: (value: SnapshotRef) => void,
+  ) {
+    const id = `state-snapshot-${label.toLowerCase()}`;
+
+    return (
+      <FormControl size="small" sx={{ minWidth: 200 }}>
+        <InputLabel id={id}>{label}</InputLabel>
+        <Select
+          labelId={id}
+          label={label}
+          value={value}
+          onChange={(e) => onChange(e.target.value as SnapshotRef)}
+        >
+          <MenuItem value="live">Live state</MenuItem>
+          {this.state.snapshots.map((snapshot) => (
+            <MenuItem key={snapshot.id} value={snapshot.id}>
+              {snapshot.name} (
+              {new Date(snapshot.timestamp).toLocaleTimeString()})
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    );
+  }
+
+  render() {
+    const { diff } = this.state;
+
+    return (
+      <Box sx={{ marginBottom: 2 }}>
+        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <TextField
+            size="small"
+            label="Snapshot name"
+            value={this.state.name}
+            onChange={(e) => this.setState({ name: e.target.value })}
+          />
+          <Button startIcon={<CameraAltIcon />} onClick={this.takeSnapshot}>
+            Take snapshot
+          </Button>
+        </Box>
+
+        {this.state.snapshots.length > 0 && (
+          <Box sx={{ marginTop: 1 }}>
+            {this.state.snapshots.map((snapshot) => (
+              <Chip
+                key={snapshot.id}
+                size="small"
+                sx={{ margin: "2px" }}
+                label={`${snapshot.name} (${new Date(
+                  snapshot.timestamp,
+                ).toLocaleTimeString()})`}
+                onDelete={() => this.deleteSnapshot(snapshot.id)}
+              />
+            ))}
+          </Box>
+        )}
+
+        {this.state.snapshots.length > 0 && (
+          <Box
+            sx={{ display: "flex", gap: 1, alignItems: "center", marginTop: 1 }}
+          >
+            {this.renderSnapshotSelect("From", this.state.from, (from) =>
+              this.setState({ from }),
+            )}
+            {this.renderSnapshotSelect("To", this.state.to, (to) =>
+              this.setState({ to }),
+            )}
+            <Button
+              startIcon={<CompareArrowsIcon />}
+              disabled={this.state.from === ""}
+              onClick={this.compare}
+            >
+              Compare
+            </Button>
+          </Box>
+        )}
+
+        {this.state.error && (
+          <Alert severity="error" sx={{ marginTop: 1 }}>
+            {this.state.error}
+          </Alert>
+        )}
+
+        {diff && diff.entries.length === 0 && (
+          <Alert severity="info" sx={{ marginTop: 1 }}>
+            No differences.
+          </Alert>
+        )}
+
+        {diff && diff.entries.length > 0 && (
+          <TableContainer component={Paper} sx={{ marginTop: 1 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>path</TableCell>
+                  <TableCell>change</TableCell>
+                  <TableCell>before</TableCell>
+                  <TableCell>after</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {diff.entries.map((entry) => (
+                  <TableRow key={`${entry.kind}:${entry.path.join(".")}`}>
+                    <TableCell sx={{ fontFamily: "monospace" }}>
+                      {entry.path.join(".") || "(root)"}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        color={DIFF_COLORS[entry.kind]}
+                        label={entry.kind}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: "monospace" }}>
+                      {formatValue(entry.before)}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: "monospace" }}>
+                      {formatValue(entry.after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {diff?.truncated && (
+          <Alert severity="warning" sx={{ marginTop: 1 }}>
+            Showing the first {diff.entries.length} differences only.
+          </Alert>
+        )}
+      </Box>
+    );
+  }
+}
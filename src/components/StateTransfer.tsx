@@ -0,0 +1,121 @@
+import * as React from "react";
+
+import { AccessControlOptions } from "../config";
+import { exportRoomState, importRoomState } from "../services";
+import { downloadFile, isAllowed } from "../helpers/helpers";
+
+import { Alert, Box, Button } from "@mui/material";
+
+import DownloadIcon from "@mui/icons-material/Download";
+import UploadIcon from "@mui/icons-material/Upload";
+
+interface Props {
+  roomId: string;
+  access?: AccessControlOptions;
+  // Called once a state has been imported
+  onImport?: () => void;
+}
+interface State {
+  message?: { severity: "success" | "error"; text: string };
+}
+
+// Decode base64 (as returned by binary exports)
+function decodeBase64(data: string) {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Download the room's full state, or restore it from a JSON export
+ */
+export class StateTransfer extends React.Component<Props, State> {
+  state: State = {};
+
+  inputRef = React.createRef<HTMLInputElement>();
+
+  async exportState(format: "json" | "binary") {
+    try {
+      const exported = await exportRoomState(this.props.roomId, format);
+      const filename = `state-${exported.roomName}-${exported.roomId}-${exported.exportedAt}`;
+
+      if (format === "binary") {
+        downloadFile(`${filename}.bin`, decodeBase64(exported.bytes));
+      } else {
+        downloadFile(`${filename}.json`, exported);
+      }
+    } catch (err) {
+      this.setState({ message: { severity: "error", text: err.message } });
+    }
+  }
+
+  handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const exported = JSON.parse(await file.text());
+      await importRoomState(this.props.roomId, exported);
+
+      this.setState({
+        message: { severity: "success", text: `Imported ${file.name}` },
+      });
+      this.props.onImport?.();
+    } catch (err) {
+      this.setState({ message: { severity: "error", text: err.message } });
+    }
+  };
+
+  render() {
+    return (
+      <Box sx={{ mb: 2 }}>
+        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <Button
+            variant="text"
+            startIcon={<DownloadIcon />}
+            onClick={() => this.exportState("json")}
+          >
+            Export JSON
+          </Button>
+          <Button
+            variant="text"
+            startIcon={<DownloadIcon />}
+            onClick={() => this.exportState("binary")}
+          >
+            Export encoded
+          </Button>
+
+          {isAllowed(this.props.access, "allowStateModification") && (
+            <Button
+              variant="text"
+              color="warning"
+              startIcon={<UploadIcon />}
+              onClick={() => this.inputRef.current?.click()}
+            >
+              Import JSON
+              <input
+                ref={this.inputRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={this.handleFile}
+              />
+            </Button>
+          )}
+        </Box>
+
+        {this.state.message && (
+          <Alert
+            severity={this.state.message.severity}
+            onClose={() => this.setState({ message: undefined })}
+            sx={{ mt: 1 }}
+          >
+            {this.state.message.text}
+          </Alert>
+        )}
+      </Box>
+    );
+  }
+}
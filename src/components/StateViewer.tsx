@@ -0,0 +1,442 @@
+import * as React from "react";
+
+import ReactJson from "react18-json-view";
+
+import { config } from "../config";
+
+import {
+  Alert,
+  Box,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+
+export type StateFieldType =
+  | { kind: "primitive"; type: string }
+  | { kind: "schema"; name: string }
+  | { kind: "map" | "array" | "set" | "collection"; child: StateFieldType };
+
+export interface StateSchema {
+  root: string;
+  types: Record<string, Array<{ name: string; type: StateFieldType }>>;
+}
+
+type StateView = "tree" | "json" | "table";
+
+const STATE_VIEWS: StateView[] = ["tree", "json", "table"];
+
+// numeric Schema types (sorted as numbers in the table view)
+const NUMBER_TYPES = [
+  "number",
+  "int8",
+  "uint8",
+  "int16",
+  "uint16",
+  "int32",
+  "uint32",
+  "int64",
+  "uint64",
+  "float32",
+  "float64",
+];
+
+// A collection of the state, listed in the table view
+interface StateCollection {
+  path: string[];
+  type: StateFieldType & { child: StateFieldType };
+}
+
+function typeLabel(type?: StateFieldType): string {
+  if (!type) {
+    return "";
+  } else if (type.kind === "primitive") {
+    return type.type;
+  } else if (type.kind === "schema") {
+    return type.name;
+  } else {
+    return `${type.kind}<${typeLabel(type.child)}>`;
+  }
+}
+
+// Infer types of non-Schema states from their JSON values
+function inferType(value: any): StateFieldType {
+  if (Array.isArray(value)) {
+    return { kind: "array", child: inferType(value[0]) };
+  } else if (value !== null && typeof value === "object") {
+    return { kind: "primitive", type: "object" };
+  }
+  return { kind: "primitive", type: typeof value };
+}
+
+function getPath(state: any, path: string[]) {
+  return path.reduce((value, key) => value?.[key], state);
+}
+
+// Parse a value entered in the tree view, according to the field type
+function parseLeafValue(type: StateFieldType, text: string) {
+  if (type.kind === "primitive" && type.type === "string") {
+    return text;
+  } else if (type.kind === "primitive" && NUMBER_TYPES.includes(type.type)) {
+    const number = Number(text);
+    if (text.trim() === "" || isNaN(number)) {
+      throw new Error("Expected a number");
+    }
+    return number;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error("Invalid JSON");
+  }
+}
+
+interface Props {
+  state: any;
+  schema?: StateSchema;
+  editable: boolean;
+  onEdit: (params: any) => void;
+}
+interface State {
+  view: StateView;
+  // path of the collection shown in the table view
+  collection?: string;
+  // leaf value being edited in the tree view
+  editing?: { path: string[]; type: StateFieldType; text: string };
+  editError?: string;
+}
+
+/**
+ * Room state, as a typed tree, raw JSON, or a table of a collection
+ */
+export class StateViewer extends React.Component<Props, State> {
+  state: State = {
+    view: STATE_VIEWS.includes(config.roomInspect.stateView as StateView)
+      ? (config.roomInspect.stateView as StateView)
+      : "tree",
+  };
+
+  handleViewChange = (e, view: StateView) => {
+    if (view) {
+      this.setState({ view });
+    }
+  };
+
+  // Collections reachable through Schema fields (not nested in collections)
+  getCollections(): StateCollection[] {
+    const { schema } = this.props;
+    const collections: StateCollection[] = [];
+
+    if (!schema) {
+      // non-Schema state: top-level arrays
+      return Object.keys(this.props.state || {})
+        .filter((key) => Array.isArray(this.props.state[key]))
+        .map((key) => ({
+          path: [key],
+          type: inferType(this.props.state[key]) as StateCollection["type"],
+        }));
+    }
+
+    const visit = (typeName: string, path: string[], seen: string[]) => {
+      schema.types[typeName]?.forEach((field) => {
+        const fieldPath = [...path, field.name];
+
+        if (field.type.kind === "schema" && !seen.includes(field.type.name)) {
+          visit(field.type.name, fieldPath, [...seen, field.type.name]);
+        } else if (field.type.kind !== "primitive" && "child" in field.type) {
+          collections.push({ path: fieldPath, type: field.type });
+        }
+      });
+    };
+
+    visit(schema.root, [], [schema.root]);
+
+    return collections;
+  }
+
+  renderValue(value: any) {
+    return value === undefined ? <i>undefined</i> : JSON.stringify(value);
+  }
+
+  startEditing(path: string[], type: StateFieldType, value: any) {
+    this.setState({
+      editing: {
+        path,
+        type,
+        text: typeof value === "string" ? value : JSON.stringify(value),
+      },
+      editError: undefined,
+    });
+  }
+
+  submitEdit = () => {
+    const { path, type, text } = this.state.editing;
+    let newValue: any;
+
+    try {
+      newValue = parseLeafValue(type, text);
+    } catch (e) {
+      return this.setState({ editError: e.message });
+    }
+
+    // same parameters as the JSON view's `onEdit`
+    this.props.onEdit({
+      newValue,
+      indexOrName: path[path.length - 1],
+      parentPath: path.slice(0, -1),
+    });
+    this.setState({ editing: undefined, editError: undefined });
+  };
+
+  // Leaf value, editable on click (primitive values only)
+  renderLeafValue(path: string[], value: any, type: StateFieldType) {
+    const { editing } = this.state;
+    const editable =
+      this.props.editable &&
+      path.length > 0 &&
+      value !== undefined &&
+      (value === null || typeof value !== "object");
+
+    if (!editable) {
+      return this.renderValue(value);
+    } else if (editing?.path.join(".") !== path.join(".")) {
+      return (
+        <Box
+          component="span"
+          title="Click to edit"
+          sx={{ cursor: "pointer", "&:hover": { textDecoration: "underline" } }}
+          onClick={() => this.startEditing(path, type, value)}
+        >
+          {this.renderValue(value)}
+        </Box>
+      );
+    }
+
+    return (
+      <TextField
+        variant="standard"
+        size="small"
+        autoFocus
+        value={editing.text}
+        error={!!this.state.editError}
+        helperText={this.state.editError}
+        onChange={(e) =>
+          this.setState({ editing: { ...editing, text: e.target.value } })
+        }
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            this.submitEdit();
+          } else if (e.key === "Escape") {
+            this.setState({ editing: undefined });
+          }
+        }}
+        onBlur={() => this.setState({ editing: undefined })}
+        InputProps={{ sx: { fontFamily: "monospace", fontSize: "inherit" } }}
+      />
+    );
+  }
+
+  renderNode(
+    name: string,
+    value: any,
+    type: StateFieldType,
+    depth: number,
+    path: string[] = [],
+  ) {
+    const { schema } = this.props;
+    const label = (
+      <>
+        <b>{name}</b>
+        <Chip
+          size="small"
+          variant="outlined"
+          label={typeLabel(type)}
+          sx={{ marginLeft: "6px", height: "18px" }}
+        />
+      </>
+    );
+
+    let children: Array<[string, any, StateFieldType]>;
+
+    if (type.kind === "schema" && value) {
+      children = (schema?.types[type.name] || []).map((field) => [
+        field.name,
+        value[field.name],
+        field.type,
+      ]);
+    } else if (type.kind !== "primitive" && "child" in type && value) {
+      children = Object.keys(value).map((key) => [key, value[key], type.child]);
+    } else if (!schema && value !== null && typeof value === "object") {
+      children = Object.keys(value).map((key) => [
+        key,
+        value[key],
+        inferType(value[key]),
+      ]);
+    }
+
+    if (!children) {
+      return (
+        <Box key={name} sx={{ paddingLeft: "18px", fontFamily: "monospace" }}>
+          {label}: {this.renderLeafValue(path, value, type)}
+        </Box>
+      );
+    }
+
+    return (
+      <Box
+        key={name}
+        component="details"
+        open={depth < 2}
+        sx={{ paddingLeft: "4px", fontFamily: "monospace" }}
+      >
+        <summary>
+          {label}
+          {type.kind !== "primitive" && type.kind !== "schema" && (
+            <span> ({children.length})</span>
+          )}
+        </summary>
+        <Box sx={{ paddingLeft: "14px" }}>
+          {children.map(([key, child, childType]) =>
+            this.renderNode(key, child, childType, depth + 1, [...path, key]),
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
+  renderTree() {
+    const { schema, state } = this.props;
+    const rootType: StateFieldType = schema
+      ? { kind: "schema", name: schema.root }
+      : { kind: "primitive", type: "object" };
+
+    return this.renderNode("state", state, rootType, 0);
+  }
+
+  renderTable() {
+    const collections = this.getCollections();
+
+    if (collections.length === 0) {
+      return <Alert severity="info">The state has no collections.</Alert>;
+    }
+
+    const selected =
+      collections.find((c) => c.path.join(".") === this.state.collection) ||
+      collections[0];
+    const items = getPath(this.props.state, selected.path) || {};
+    const childType = selected.type.child;
+
+    const fields =
+      childType.kind === "schema"
+        ? this.props.schema?.types[childType.name] || []
+        : [{ name: "value", type: childType }];
+
+    const columns: GridColDef[] = [
+      { field: "__key", headerName: "key", flex: 1 },
+      ...fields.map((field): GridColDef => ({
+        field: field.name,
+        headerName: `${field.name}: ${typeLabel(field.type)}`,
+        flex: 1,
+        type:
+          field.type.kind === "primitive" &&
+          NUMBER_TYPES.includes(field.type.type)
+            ? "number"
+            : "string",
+        valueFormatter: (params) =>
+          params.value !== null && typeof params.value === "object"
+            ? JSON.stringify(params.value)
+            : params.value,
+      })),
+    ];
+
+    const rows = Object.keys(items).map((key) => {
+      const item = items[key];
+      return childType.kind === "schema"
+        ? { ...item, __key: key }
+        : { value: item, __key: key };
+    });
+
+    return (
+      <Box>
+        <FormControl size="small" sx={{ minWidth: 240, mb: 2 }}>
+          <InputLabel id="state-table-collection">Collection</InputLabel>
+          <Select
+            labelId="state-table-collection"
+            label="Collection"
+            value={selected.path.join(".")}
+            onChange={(e) => this.setState({ collection: e.target.value })}
+          >
+            {collections.map((collection) => (
+              <MenuItem
+                key={collection.path.join(".")}
+                value={collection.path.join(".")}
+              >
+                {collection.path.join(".")} ({typeLabel(collection.type)})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <DataGrid
+          columns={columns}
+          rows={rows}
+          getRowId={(row) => row.__key}
+          autoHeight
+          sx={{ overflow: "hidden" }}
+          disableRowSelectionOnClick
+        />
+      </Box>
+    );
+  }
+
+  render() {
+    return (
+      <Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={this.state.view}
+          onChange={this.handleViewChange}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="tree">Tree</ToggleButton>
+          <ToggleButton value="json">JSON</ToggleButton>
+          <ToggleButton value="table">Table</ToggleButton>
+        </ToggleButtonGroup>
+
+        {this.props.editable && this.state.view !== "json" && (
+          <Typography variant="caption" sx={{ marginLeft: 2 }}>
+            {this.state.view === "tree"
+              ? "Click a value to edit it"
+              : "Switch to Tree or JSON to edit values"}
+          </Typography>
+        )}
+
+        {this.state.view === "tree" && this.renderTree()}
+
+        {this.state.view === "json" && (
+          <ReactJson
+            src={this.props.state}
+            theme={"default"}
+            editable={
+              this.props.editable
+                ? { edit: true, add: false, delete: false }
+                : false
+            }
+            onEdit={this.props.onEdit}
+          />
+        )}
+
+        {this.state.view === "table" && this.renderTable()}
+      </Box>
+    );
+  }
+}
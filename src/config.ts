@@ -35,12 +35,14 @@ export interface RoomListOptions {
 
 // Type definitions for room inspection options
 export interface RoomInspectOptions {
-  tabs?: Array<"state" | "clients" | "metrics" | "logs" | "custom">;
+  // Visible tabs, in order ("custom" is replaced by `customTabs`)
+  tabs?: Array<"state" | "clients" | "metrics" | "logs" | "traffic" | "custom">;
   stateView?: "tree" | "json" | "table" | "custom";
   allowStateEdit?: boolean;
   customTabs?: Array<{
     id: string;
     label: string;
+    // id of a plugin registered with `window.registerMonitorPlugin()`
     component: string;
   }>;
 }
@@ -51,6 +53,19 @@ export interface AccessControlOptions {
   allowStateModification?: boolean;
   allowClientMessages?: boolean;
   allowRoomDisposal?: boolean;
+  allowRoomActions?: boolean;
+  allowAuditLog?: boolean;
+}
+
+// Type definitions for custom action arguments (passed to the handler in order)
+export interface CustomActionArgument {
+  name: string;
+  type: "string" | "number" | "boolean" | "json";
+  description?: string;
+  // Allowed values
+  enum?: Array<string | number>;
+  default?: any;
+  required?: boolean;
 }
 
 // Type definitions for custom actions
@@ -60,6 +75,7 @@ export interface CustomAction {
   description?: string;
   icon?: string;
   confirmRequired?: boolean;
+  args?: CustomActionArgument[];
 }
 
 // Frontend configuration options
@@ -111,7 +127,7 @@ const defaultConfig: MonitorFrontendConfig = {
     showEmptyRooms: true,
   },
   roomInspect: {
-    tabs: ["state", "clients"],
+    tabs: ["clients", "state", "logs", "metrics", "traffic", "custom"],
     stateView: "tree",
     allowStateEdit: false,
   },
@@ -121,6 +137,8 @@ const defaultConfig: MonitorFrontendConfig = {
     allowStateModification: false,
     allowClientMessages: true,
     allowRoomDisposal: true,
+    allowRoomActions: true,
+    allowAuditLog: true,
   },
   realtime: {
     enabled: false,
@@ -129,22 +147,36 @@ const defaultConfig: MonitorFrontendConfig = {
   },
 };
 
-// Get configuration from global variable or use defaults
+function isPlainObject(value: any) {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+// Recursively merge `source` into a copy of `target`
+// (arrays are replaced, and `undefined` values are ignored)
+export function deepMerge<T>(target: T, source: any): T {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source === undefined ? target : source;
+  }
+
+  const result: any = { ...target };
+
+  Object.keys(source).forEach((key) => {
+    result[key] = deepMerge(result[key], source[key]);
+  });
+
+  return result;
+}
+
+// Get configuration from global variable (injected by the backend) or use defaults
 export function getConfig(): MonitorFrontendConfig {
   // Try to get config from global variable
   const globalConfig = (window as any).__COLYSEUS_MONITOR_CONFIG || {};
 
-  // Merge with defaults (simple shallow merge for now)
-  return {
-    ...defaultConfig,
-    ...globalConfig,
-    theme: { ...defaultConfig.theme, ...globalConfig.theme },
-    layout: { ...defaultConfig.layout, ...globalConfig.layout },
-    roomList: { ...defaultConfig.roomList, ...globalConfig.roomList },
-    roomInspect: { ...defaultConfig.roomInspect, ...globalConfig.roomInspect },
-    access: { ...defaultConfig.access, ...globalConfig.access },
-    realtime: { ...defaultConfig.realtime, ...globalConfig.realtime },
-  };
+  return deepMerge(defaultConfig, globalConfig);
 }
 
 // Export singleton config instance
@@ -1,4 +1,5 @@
 import type { MonitorOptions } from "../../";
+import { AccessControlOptions, config } from "../config";
 
 export type ExtractStringNames<T> = T extends (infer U)[]
   ? U extends string
@@ -16,8 +17,28 @@ export const valueFormatter: {
       return "";
     }
   },
+  messageRate: (params) => formatRate(params.value, "/s"),
+  broadcastRate: (params) => formatRate(params.value, "/s"),
+  sendRate: (params) => formatRate(params.value, "/s"),
+  patchRate: (params) => formatRate(params.value, "/s"),
+  patchBytesRate: (params) => formatRate(params.value, " B/s"),
 };
 
+function formatRate(value: string, unit: string) {
+  return value !== "" && value !== undefined ? `${value}${unit}` : "";
+}
+
+// Check whether a permission is granted (`access` as resolved by the API)
+export function isAllowed(
+  access: AccessControlOptions | undefined,
+  permission: keyof AccessControlOptions,
+) {
+  const merged = { ...config.access, ...access };
+  return permission === "allowStateModification"
+    ? merged.allowStateModification === true
+    : merged[permission] !== false;
+}
+
 export function humanizeElapsedTime(milliseconds: number) {
   if (milliseconds < 0) {
     return "";
@@ -45,3 +66,19 @@ export function humanizeElapsedTime(milliseconds: number) {
   }
   return "less than a second";
 }
+
+// Save data as a file (JSON-encoded, unless given as bytes)
+export function downloadFile(filename: string, data: any) {
+  const blob =
+    data instanceof Uint8Array
+      ? new Blob([data], { type: "application/octet-stream" })
+      : new Blob([JSON.stringify(data)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
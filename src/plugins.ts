@@ -0,0 +1,84 @@
+import * as React from "react";
+
+import {
+  executeClientAction,
+  executeRoomAction,
+  fetchRoomData,
+  fetchRoomLogs,
+  remoteRoomCall,
+  updateRoomState,
+} from "./services";
+
+// API client given to plugins (bound to the inspected room)
+export interface RoomApiClient {
+  roomId: string;
+  call: (method: string, ...args: any[]) => Promise<any>;
+  executeAction: (actionId: string, ...args: any[]) => Promise<any>;
+  executeClientAction: (
+    actionId: string,
+    sessionId: string,
+    ...args: any[]
+  ) => Promise<any>;
+  fetchData: () => Promise<any>;
+  fetchLogs: (filter?: Parameters<typeof fetchRoomLogs>[1]) => Promise<any>;
+  updateState: (
+    path: string | Array<string | number>,
+    value: any,
+  ) => Promise<any>;
+}
+
+export interface RoomPluginProps {
+  roomId: string;
+  // Latest inspect data of the room (as returned by `GET /room`)
+  inspectData: any;
+  api: RoomApiClient;
+}
+
+export type RoomPlugin = React.ComponentType<RoomPluginProps>;
+
+// Plugins are registered as factories, given the monitor's React (so plugin
+// scripts don't need to bundle their own copy)
+export type RoomPluginFactory = (react: typeof React) => RoomPlugin;
+
+// Factories registered by `window.registerMonitorPlugin()` (defined by the
+// backend before the bundle loads)
+const PLUGINS_GLOBAL = "__COLYSEUS_MONITOR_PLUGINS";
+
+const factories: Record<string, RoomPluginFactory> = ((window as any)[
+  PLUGINS_GLOBAL
+] ||= {});
+const plugins = new Map<string, RoomPlugin>();
+
+/**
+ * Register a plugin component by id (referenced by `roomInspect.customTabs`)
+ */
+export function registerMonitorPlugin(id: string, factory: RoomPluginFactory) {
+  factories[id] = factory;
+  plugins.delete(id);
+}
+
+// Registration after the bundle has loaded
+(window as any).registerMonitorPlugin = registerMonitorPlugin;
+
+// Get a registered plugin component (`undefined` if not registered)
+export function getMonitorPlugin(id: string): RoomPlugin | undefined {
+  if (!plugins.has(id) && typeof factories[id] === "function") {
+    plugins.set(id, factories[id](React));
+  }
+
+  return plugins.get(id);
+}
+
+export function createRoomApiClient(roomId: string): RoomApiClient {
+  return {
+    roomId,
+    call: (method, ...args) => remoteRoomCall(roomId, method, ...args),
+    executeAction: (actionId, ...args) =>
+      executeRoomAction(roomId, actionId, ...args),
+    executeClientAction: (actionId, sessionId, ...args) =>
+      executeClientAction(roomId, actionId, sessionId, ...args),
+    fetchData: () => fetchRoomData(roomId),
+    fetchLogs: (filter) => fetchRoomLogs(roomId, filter),
+    updateState: (path, value) => updateRoomState(roomId, path, value),
+  };
+}
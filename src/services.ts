@@ -18,50 +18,112 @@ const handleApiError = async (response: Response) => {
   return response.json();
 };
 
-// Enhanced room list fetching with filtering and pagination
-export function fetchRoomList(
-  options: {
-    filter?: Record<string, any>;
-    sort?: string;
-    order?: "asc" | "desc";
-    page?: number;
-    limit?: number;
-  } = {},
+// Bearer token used to authenticate API requests (if required by the server)
+const AUTH_TOKEN_CACHE = "$$colyseus$token";
+
+// Send an API request, authenticating with the stored bearer token
+function request(path: string, init: RequestInit = {}): Promise<any> {
+  const token = localStorage.getItem(AUTH_TOKEN_CACHE);
+  const headers = new Headers(init.headers);
+
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  return fetch(`${ENDPOINT}${getApiPrefix()}${path}`, {
+    ...init,
+    headers,
+  }).then((response) => {
+    const challenge = response.headers.get("WWW-Authenticate") || "";
+
+    if (response.status === 401 && challenge.startsWith("Bearer")) {
+      // token may have been updated by a concurrent request
+      if (localStorage.getItem(AUTH_TOKEN_CACHE) !== token) {
+        return request(path, init);
+      }
+
+      const newToken = window.prompt("Access token");
+
+      if (newToken) {
+        localStorage.setItem(AUTH_TOKEN_CACHE, newToken);
+        return request(path, init);
+      }
+
+      localStorage.removeItem(AUTH_TOKEN_CACHE);
+    }
+
+    return handleApiError(response);
+  });
+}
+
+// Room list filtering, sorting and pagination options
+export interface RoomListQuery {
+  filter?: Record<string, any>;
+  view?: string;
+  sort?: string;
+  order?: "asc" | "desc";
+  page?: number;
+  limit?: number;
+}
+
+// Build room list query parameters
+function getRoomListQuery(
+  options: RoomListQuery,
+  query: URLSearchParams = new URLSearchParams(),
 ) {
-  const { filter, sort, order, page, limit } = options;
+  const { filter, view, sort, order, page, limit } = options;
 
-  // Build query parameters
-  const query = new URLSearchParams();
   if (filter) query.set("filter", JSON.stringify(filter));
+  if (view) query.set("view", view);
   if (sort) query.set("sort", sort);
   if (order) query.set("order", order);
   if (page) query.set("page", page.toString());
   if (limit) query.set("limit", limit.toString());
 
+  return query;
+}
+
+// Enhanced room list fetching with filtering and pagination
+export function fetchRoomList(options: RoomListQuery = {}) {
+  const query = getRoomListQuery(options);
   const queryStr = query.toString() ? `?${query.toString()}` : "";
 
-  return fetch(`${ENDPOINT}${getApiPrefix()}${queryStr}`).then((response) =>
-    handleApiError(response),
-  );
+  return request(queryStr);
 }
 
 // Enhanced room data fetching
 export function fetchRoomData(roomId: string) {
-  return fetch(`${ENDPOINT}${getApiPrefix()}/room?roomId=${roomId}`).then(
-    (response) => handleApiError(response),
-  );
+  return request(`/room?roomId=${roomId}`);
 }
 
 // Call room method (regular or custom action)
 export function remoteRoomCall(roomId: string, method: string, ...args: any[]) {
-  const query = new URLSearchParams();
-  query.set("roomId", roomId);
-  query.set("method", method);
-  query.set("args", JSON.stringify(args));
+  return request("/room/call", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ roomId, method, args }),
+  });
+}
+
+// Result of a batch call, for each room
+export interface BatchRoomResult {
+  roomId: string;
+  success: boolean;
+  result?: any;
+  error?: string;
+}
 
-  return fetch(
-    `${ENDPOINT}${getApiPrefix()}/room/call?${query.toString()}`,
-  ).then((response) => handleApiError(response));
+// Call a room method on several rooms
+export function batchRoomCall(
+  roomIds: string[],
+  method: string,
+  ...args: any[]
+): Promise<{ results: BatchRoomResult[] }> {
+  return request("/room/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ roomIds, method, args }),
+  });
 }
 
 // Execute a custom room action
@@ -89,24 +151,367 @@ export function executeClientAction(
 
 // Fetch server metrics
 export function fetchServerMetrics() {
-  return fetch(`${ENDPOINT}${getApiPrefix()}/metrics`).then((response) =>
-    handleApiError(response),
-  );
+  return request("/metrics");
+}
+
+// Metrics history range and downsampling options (timestamps in ms)
+export interface MetricsHistoryQuery {
+  from?: number;
+  to?: number;
+  step?: number;
+}
+
+// Fetch sampled server metrics over a time range
+export function fetchMetricsHistory(options: MetricsHistoryQuery = {}) {
+  const query = new URLSearchParams();
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined) query.set(key, `${value}`);
+  });
+
+  return request(`/metrics/history?${query.toString()}`);
+}
+
+// Fetch active alerts
+export function fetchAlerts() {
+  return request("/alerts");
+}
+
+// Fetch processes (grouped rooms, CCU and usage of each process)
+export function fetchProcesses() {
+  return request("/processes");
 }
 
 // Check server health
 export function checkServerHealth() {
-  return fetch(`${ENDPOINT}${getApiPrefix()}/health`).then((response) =>
-    handleApiError(response),
-  );
+  return request("/health");
 }
 
 // Update room state at a specific path (if allowed)
-export function updateRoomState(roomId: string, path: string, value: any) {
+// `path` is either dot-separated ("players.abc.x") or an array of segments.
+export function updateRoomState(
+  roomId: string,
+  path: string | Array<string | number>,
+  value: any,
+) {
   return remoteRoomCall(roomId, "_updateRoomState", path, value);
 }
 
 // Get room logs (if enabled)
-export function fetchRoomLogs(roomId: string) {
-  return remoteRoomCall(roomId, "_getRoomLogs");
+export function fetchRoomLogs(
+  roomId: string,
+  filter: {
+    level?: "debug" | "info" | "warn" | "error";
+    since?: number;
+    limit?: number;
+  } = {},
+) {
+  return remoteRoomCall(roomId, "_getRoomLogs", filter);
+}
+
+// Message traffic capture filtering options
+export interface TrafficFilter {
+  after?: number;
+  sessionId?: string;
+  type?: string;
+  direction?: "in" | "out";
+  limit?: number;
+}
+
+// Get captured messages (and whether capture is enabled)
+export function fetchRoomTraffic(roomId: string, filter: TrafficFilter = {}) {
+  return remoteRoomCall(roomId, "_getTraffic", filter);
+}
+
+// Start or stop capturing the room's message traffic
+export function setTrafficCapture(roomId: string, capturing: boolean) {
+  return remoteRoomCall(
+    roomId,
+    capturing ? "_startTrafficCapture" : "_stopTrafficCapture",
+  );
+}
+
+export function clearRoomTraffic(roomId: string) {
+  return remoteRoomCall(roomId, "_clearTraffic");
+}
+
+// Export the full state of a room ("binary": base64-encoded Schema bytes)
+export function exportRoomState(roomId: string, format: "json" | "binary") {
+  return remoteRoomCall(roomId, "_exportState", format);
+}
+
+// Restore a room's state from a JSON export (if allowed)
+export function importRoomState(roomId: string, exported: any) {
+  return request(`/room/state?roomId=${roomId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(exported),
+  });
+}
+
+// Session recording (see `replaySession()`)
+export function fetchRecordingStatus(roomId: string) {
+  return remoteRoomCall(roomId, "_getRecordingStatus");
+}
+
+export function setRecording(roomId: string, recording: boolean) {
+  return remoteRoomCall(
+    roomId,
+    recording ? "_startRecording" : "_stopRecording",
+  );
+}
+
+export function exportRecording(roomId: string) {
+  return remoteRoomCall(roomId, "_exportRecording");
+}
+
+// Replay a recorded session into a new room (resolves with its `roomId`)
+export function replaySession(recording: any, speed: number = 1) {
+  return request("/replay", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ recording, speed }),
+  });
+}
+
+// State snapshots (`"live"` refers to the current state in diffs)
+export type SnapshotRef = number | "live";
+
+export function fetchStateSnapshots(roomId: string) {
+  return remoteRoomCall(roomId, "_getStateSnapshots");
+}
+
+export function takeStateSnapshot(roomId: string, name?: string) {
+  return remoteRoomCall(roomId, "_takeStateSnapshot", name);
+}
+
+export function deleteStateSnapshot(roomId: string, id: number) {
+  return remoteRoomCall(roomId, "_deleteStateSnapshot", id);
+}
+
+export function diffStateSnapshots(
+  roomId: string,
+  from: SnapshotRef,
+  to: SnapshotRef = "live",
+) {
+  return remoteRoomCall(roomId, "_diffStateSnapshots", from, to);
+}
+
+// Audit trail filtering and pagination options
+export interface AuditLogQuery {
+  roomId?: string;
+  method?: string;
+  principal?: string;
+  success?: boolean;
+  from?: number;
+  to?: number;
+  page?: number;
+  limit?: number;
+}
+
+// Fetch audit trail entries (most recent first)
+export function fetchAuditLog(options: AuditLogQuery = {}) {
+  const query = new URLSearchParams();
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") query.set(key, `${value}`);
+  });
+
+  return request(`/audit?${query.toString()}`);
+}
+
+// Topics pushed by the realtime transport
+export type RealtimeTopic =
+  "roomListUpdates" | "roomStateUpdates" | "clientUpdates" | "serverMetrics";
+
+export interface RealtimeSubscription {
+  topic: RealtimeTopic;
+  roomId?: string;
+  params?: RoomListQuery;
+}
+
+export interface RealtimeMessage {
+  topic: RealtimeTopic;
+  roomId?: string;
+  data?: any;
+  error?: string;
+}
+
+// Apply JSON patches (as sent by the event stream) to a copy of `target`
+function applyJSONPatches(
+  target: any,
+  patches: Array<{ op: string; path: Array<string | number>; value?: any }>,
+) {
+  let result = JSON.parse(JSON.stringify(target ?? null));
+
+  for (const { op, path, value } of patches) {
+    if (path.length === 0) {
+      result = value;
+      continue;
+    }
+
+    const parent = path.slice(0, -1).reduce((obj, key) => obj[key], result);
+    const key = path[path.length - 1];
+
+    if (op !== "remove") {
+      parent[key] = value;
+    } else if (Array.isArray(parent)) {
+      parent.splice(key as number, 1);
+    } else {
+      delete parent[key];
+    }
+  }
+
+  return result;
+}
+
+// Apply a room list diff (as sent by the event stream)
+function applyRoomListDiff(previous: any, diff: any, elapsedTime: number) {
+  const { roomIds, removed, changed, ...rest } = diff;
+
+  // Unchanged rooms aren't re-sent: advance their elapsed time locally
+  const rooms = new Map<string, any>(
+    previous.rooms.map((room) => [
+      room.roomId,
+      { ...room, elapsedTime: room.elapsedTime + elapsedTime },
+    ]),
+  );
+  removed.forEach((roomId) => rooms.delete(roomId));
+  changed.forEach((room) => rooms.set(room.roomId, room));
+
+  return { ...previous, ...rest, rooms: roomIds.map((id) => rooms.get(id)) };
+}
+
+// Subscribe to realtime updates over Server-Sent Events
+function subscribeStream(
+  subscriptions: RealtimeSubscription[],
+  onMessage: (message: RealtimeMessage) => void,
+  onClose: () => void,
+) {
+  const query = new URLSearchParams();
+  query.set("topics", subscriptions.map(({ topic }) => topic).join(","));
+
+  subscriptions.forEach(({ roomId, params }) => {
+    if (roomId) query.set("roomId", roomId);
+    if (params) getRoomListQuery(params, query);
+  });
+
+  // EventSource can't send headers: pass the token as a query parameter
+  const token = localStorage.getItem(AUTH_TOKEN_CACHE);
+  if (token) query.set("access_token", token);
+
+  const source = new EventSource(
+    `${ENDPOINT}${getApiPrefix()}/stream?${query.toString()}`,
+  );
+
+  const listen = (event: string, listener: (data: any) => void) =>
+    source.addEventListener(event, (e: MessageEvent) =>
+      listener(JSON.parse(e.data)),
+    );
+
+  // Last known data, to apply diffs onto
+  let roomList: any;
+  let roomListReceivedAt: number;
+  let roomState: any;
+
+  listen("roomList", (data) => {
+    roomList = data;
+    roomListReceivedAt = Date.now();
+    onMessage({ topic: "roomListUpdates", data });
+  });
+
+  listen("roomListDiff", (diff) => {
+    const now = Date.now();
+    roomList = applyRoomListDiff(roomList, diff, now - roomListReceivedAt);
+    roomListReceivedAt = now;
+    onMessage({ topic: "roomListUpdates", data: roomList });
+  });
+
+  listen("metrics", (data) => onMessage({ topic: "serverMetrics", data }));
+
+  listen("roomState", ({ roomId, state, stateSize, stats }) => {
+    roomState = state;
+    onMessage({
+      topic: "roomStateUpdates",
+      roomId,
+      data: { state, stateSize, stats },
+    });
+  });
+
+  listen("roomStatePatch", ({ roomId, patches, stateSize, stats }) => {
+    roomState = applyJSONPatches(roomState, patches);
+    onMessage({
+      topic: "roomStateUpdates",
+      roomId,
+      data: { state: roomState, stateSize, stats },
+    });
+  });
+
+  listen("clients", ({ roomId, ...data }) =>
+    onMessage({ topic: "clientUpdates", roomId, data }),
+  );
+
+  listen("failure", ({ topic, roomId, error }) =>
+    onMessage({ topic, roomId, error }),
+  );
+
+  // EventSource reconnects by itself, unless the connection is closed
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      onClose();
+    }
+  };
+
+  return () => source.close();
+}
+
+// Subscribe to realtime updates (WebSocket or Server-Sent Events, as enabled
+// on the server). Resolves to an unsubscribe function, or `undefined` if
+// unavailable.
+export async function subscribeRealtime(
+  subscriptions: RealtimeSubscription[],
+  onMessage: (message: RealtimeMessage) => void,
+  onClose: () => void,
+): Promise<(() => void) | undefined> {
+  const { transport, ticket } = await request("/realtime");
+
+  if (transport === "sse") {
+    return subscribeStream(subscriptions, onMessage, onClose);
+  } else if (transport !== "websocket") {
+    return undefined;
+  }
+
+  const query = new URLSearchParams();
+  query.set("ticket", ticket);
+
+  const socket = new WebSocket(
+    `${ENDPOINT.replace(/^http/, "ws")}${getApiPrefix()}/ws?${query.toString()}`,
+  );
+
+  return new Promise((resolve, reject) => {
+    socket.onopen = () => {
+      subscriptions.forEach(({ topic, roomId, params }) =>
+        socket.send(
+          JSON.stringify({
+            type: "subscribe",
+            topic,
+            roomId,
+            params: params && {
+              ...params,
+              filter: params.filter && JSON.stringify(params.filter),
+            },
+          }),
+        ),
+      );
+
+      socket.onclose = () => onClose();
+
+      resolve(() => {
+        socket.onclose = null;
+        socket.close();
+      });
+    };
+    socket.onmessage = (event) => onMessage(JSON.parse(event.data));
+    socket.onclose = () => reject(new Error("Realtime connection failed"));
+  });
 }